@@ -1,75 +1,355 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { GameRegistry } from './core/GameRegistry';
 import { AccessibilityManager } from './core/AccessibilityManager';
-import { ThemeManager } from './core/ThemeManager';
+import { ThemeManager, DEFAULT_THEME } from './core/ThemeManager';
 import { ConfigManager } from './core/ConfigManager';
-import { InputManager } from './core/InputManager';
+import { InputManager, DEFAULT_CALIBRATION, DEFAULT_DEVICES, DEFAULT_SCAN, sanitizeCalibration } from './core/InputManager';
+import { ProfileManager } from './core/ProfileManager';
+import { DEFAULT_BINDINGS } from './core/InputBindings';
+import { DEFAULT_FILTER } from './core/InputFilter';
+import { DEFAULT_DWELL, DwellManager } from './core/DwellManager';
+import { Router, type Route } from './core/Router';
+import { KioskManager, type KioskState } from './core/KioskManager';
 import { GameList } from './shared/components/GameList';
 import { A11yToolbar } from './shared/components/A11yToolbar';
 import { GameShell } from './shared/components/GameShell';
 import { ConsentBanner } from './shared/components/ConsentBanner';
 import { ScreenReaderLive } from './shared/components/ScreenReaderLive';
+import { ProfilePicker } from './shared/components/ProfilePicker';
+import { ProfileAvatar } from './shared/components/ProfileAvatar';
+import { BackupPanel } from './shared/components/BackupPanel';
+import { ProgressView } from './shared/components/progress/ProgressView';
+import { SwitchScanPanel } from './shared/components/SwitchScanPanel';
+import { BindingEditor } from './shared/components/BindingEditor';
+import { CalibrationWizard } from './shared/components/calibration/CalibrationWizard';
+import { TremorFilterPanel } from './shared/components/TremorFilterPanel';
+import { DevicePanel } from './shared/components/DevicePanel';
+import { ScanIndicator } from './shared/components/ScanIndicator';
+import { DwellRing } from './shared/components/DwellRing';
+import { DwellAdjust } from './shared/components/DwellAdjust';
+import { DwellPanel } from './shared/components/DwellPanel';
+import { KioskPanel } from './shared/components/KioskPanel';
+import { KioskUnlock } from './shared/components/KioskUnlock';
+
+const PAGE_TITLES = { profiles: 'Choose a learner', progress: 'Progress', controls: 'Controls' } as const;
+
+const kioskRoute = (k: KioskState): Route =>
+  k.gameId
+    ? { view: 'game', gameId: k.gameId, ...(k.profileId ? { profile: k.profileId } : {}) }
+    : { view: 'home', ...(k.profileId ? { profile: k.profileId } : {}) };
+
+// Land keyboard and screen reader users on the new view rather than where they clicked
+function focusView(main: HTMLElement | null) {
+  const target = main?.querySelector<HTMLElement>('.game-area, h2') ?? main;
+  if (!target) return;
+  if (!target.hasAttribute('tabindex')) target.tabIndex = -1;
+  target.focus();
+}
 
 export default function App() {
   const [registry] = useState(() => new GameRegistry());
   const [a11y] = useState(() => new AccessibilityManager());
   const [theme] = useState(() => new ThemeManager());
-  const [config] = useState(() => new ConfigManager());
   const [input] = useState(() => new InputManager());
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dwell] = useState(() => new DwellManager());
+  const [profiles] = useState(() => new ProfileManager());
+  const [router] = useState(() => new Router());
+  const [kiosk] = useState(() => new KioskManager());
+  const [kioskState, setKioskState] = useState(() => kiosk.getState());
+  // One ConfigManager per active profile; swapping it re-scopes all storage
+  const [config, setConfig] = useState(() => new ConfigManager());
+  const [profileList, setProfileList] = useState(() => profiles.list());
+  const [route, setRoute] = useState<Route>(() => {
+    // a reload in supervised mode reopens the locked game
+    if (kioskState.locked) router.navigate(kioskRoute(kioskState), { replace: true });
+    // with learners set up, a plain visit starts at the picker
+    else if (!router.hasRoute() && profileList.length > 0) router.navigate({ view: 'profiles' }, { replace: true });
+    return router.current();
+  });
   const [consented, setConsented] = useState(config.getConsent());
   const [regTick, setRegTick] = useState(0); // force rerender on registry updates
+  const mainRef = useRef<HTMLElement>(null);
+  // the game shown when returning from another view
+  const lastGameRef = useRef<string | null>(null);
+  if (route.gameId) lastGameRef.current = route.gameId;
 
   useEffect(() => {
     // subscribe first so we don't miss initial notifications from load
-    const unsub = registry.subscribe(() => {
-      setRegTick((t) => t + 1);
-      setSelectedId((prev) => prev ?? registry.list()[0]?.id ?? null);
-    });
+    const unsub = registry.subscribe(() => setRegTick((t) => t + 1));
     // kick off discovery
     registry.loadGames();
-    // also set a default if games were already present (e.g., HMR)
-    setSelectedId((prev) => prev ?? registry.list()[0]?.id ?? null);
     return () => {
       unsub();
     };
   }, [registry]);
 
+  useEffect(() => {
+    const unsub = router.subscribe(setRoute);
+    const detach = router.attach();
+    return () => {
+      unsub();
+      detach();
+    };
+  }, [router]);
+
+  useEffect(() => {
+    const unsub = profiles.subscribe(() => setProfileList(profiles.list()));
+    return () => {
+      unsub();
+    };
+  }, [profiles]);
+
+  // Theme and input settings follow the active profile
+  useEffect(() => {
+    theme.apply(config.loadValue('theme', DEFAULT_THEME));
+    input.setCalibration(sanitizeCalibration(config.loadValue('calibration', DEFAULT_CALIBRATION)));
+    input.setScanning(config.loadValue('scanning', DEFAULT_SCAN));
+    input.setBindings(config.loadValue('bindings', DEFAULT_BINDINGS));
+    input.setFilter(config.loadValue('filter', DEFAULT_FILTER));
+    input.setDevices(config.loadValue('devices', DEFAULT_DEVICES));
+    dwell.setSettings(config.loadValue('dwell', DEFAULT_DWELL));
+  }, [config, theme, input, dwell]);
+
+  useEffect(() => dwell.attach(), [dwell]);
+
+  useEffect(() => {
+    const unsub = kiosk.subscribe((state) => {
+      setKioskState(state);
+      if (!state.locked && document.fullscreenElement) document.exitFullscreen?.();
+    });
+    const detach = kiosk.attach();
+    return () => {
+      unsub();
+      detach();
+    };
+  }, [kiosk]);
+
+  // Back buttons and edited links cannot leave the locked game
+  useEffect(() => {
+    if (!kioskState.locked) return;
+    const locked = kioskRoute(kioskState);
+    if (route.view !== locked.view || route.gameId !== locked.gameId || route.settings) {
+      router.navigate(locked, { replace: true });
+    }
+  }, [route, kioskState, router]);
+
   useEffect(() => {
     a11y.announce('Application loaded');
   }, [a11y]);
 
-  const selected = useMemo(
-    () => (selectedId ? registry.get(selectedId) ?? null : null),
-    [selectedId, registry]
-  );
+  const view = route.view === 'home' || route.view === 'game' ? 'game' : route.view;
+  const selectedId = lastGameRef.current ?? registry.list()[0]?.id ?? null;
+  const selected = selectedId ? registry.get(selectedId) ?? null : null;
+
+  const activeProfile = config.profileId ? profiles.get(config.profileId) : null;
+
+  // Links keep the active learner so a bookmarked view reopens for them
+  const go = (next: Route, profileId = config.profileId) => {
+    router.navigate({ ...next, ...(profileId ? { profile: profileId } : {}) });
+  };
+  const gameRoute = (): Route => (lastGameRef.current ? { view: 'game', gameId: lastGameRef.current } : { view: 'home' });
+
+  const switchProfile = (id: string | null) => {
+    if (id !== config.profileId) setConfig(new ConfigManager(id));
+    go(gameRoute(), id);
+    a11y.announce(`Playing as ${id ? profiles.get(id)?.name ?? 'Guest' : 'Guest'}`);
+  };
+
+  // Deep links may name the learner by id or by name
+  useEffect(() => {
+    const wanted = route.profile?.toLowerCase();
+    if (!wanted) return;
+    const match = profileList.find((p) => p.id === route.profile || p.name.toLowerCase() === wanted);
+    if (!match || match.id === config.profileId) return;
+    setConfig(new ConfigManager(match.id));
+    a11y.announce(`Playing as ${match.name}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route.profile, profileList]);
+
+  // Announce and move focus on every navigation after the first view
+  const routeKey = `${view}:${route.gameId ?? ''}:${route.settings ? 'settings' : ''}`;
+  const shownRef = useRef(routeKey);
+  useEffect(() => {
+    if (shownRef.current === routeKey) return;
+    shownRef.current = routeKey;
+    if (view === 'game') {
+      const name = selected?.name ?? 'Games';
+      if (kioskState.locked) a11y.announce(`Supervised mode. ${name} is locked`);
+      else a11y.announce(route.settings ? `${name} settings` : name);
+    } else {
+      a11y.announce(PAGE_TITLES[view]);
+    }
+    // the game's settings panel takes focus itself once it is showing
+    if (!route.settings) focusView(mainRef.current);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeKey]);
 
   const isTest = (globalThis as any).VITEST_SETUP_ENV === 'jsdom';
   return (
     <div className="app">
       <div
-        className="app__layout"
+        className={`app__layout ${kioskState.locked ? 'app__layout--kiosk' : ''}`}
         aria-hidden={!consented && !isTest ? true : undefined}
       >
+        {!kioskState.locked && (
         <aside className="app__sidebar" aria-label="Sidebar">
           <div className="sidebar__section">
-            <A11yToolbar theme={theme} a11y={a11y} />
+            <A11yToolbar
+              theme={theme}
+              a11y={a11y}
+              dwell={dwell}
+              onChange={(settings) => {
+                if (config.getConsent()) config.saveValue('theme', settings);
+              }}
+              onDwellChange={(settings) => {
+                if (config.getConsent()) config.saveValue('dwell', settings);
+              }}
+            />
+          </div>
+          <div className="sidebar__section" aria-label="Learner">
+            <button
+              className="btn btn--list profile-current"
+              aria-pressed={view === 'profiles'}
+              onClick={() => go(view === 'profiles' ? gameRoute() : { view: 'profiles' })}
+            >
+              <ProfileAvatar color={activeProfile?.color ?? '#555555'} icon={activeProfile?.icon} size={40} />
+              <span className="game-name">{activeProfile?.name ?? 'Guest'}</span>
+              <span className="game-desc">Switch learner</span>
+            </button>
+            <button
+              className="btn btn--list"
+              aria-pressed={view === 'progress'}
+              onClick={() => go(view === 'progress' ? gameRoute() : { view: 'progress' })}
+            >
+              <span className="game-name">Progress</span>
+              <span className="game-desc">Charts and session history</span>
+            </button>
+            <button
+              className="btn btn--list"
+              aria-pressed={view === 'controls'}
+              onClick={() => go(view === 'controls' ? gameRoute() : { view: 'controls' })}
+            >
+              <span className="game-name">Controls</span>
+              <span className="game-desc">Keys, buttons, gamepad and switches</span>
+            </button>
           </div>
+          {view === 'game' && (
           <div className="sidebar__section" aria-label="Games">
           <GameList
             games={registry.list()}
             selectedId={selectedId}
-            onSelect={(id: string) => setSelectedId(id)}
+            onSelect={(id: string) => go({ view: 'game', gameId: id })}
           />
           </div>
+          )}
         </aside>
+        )}
 
-        <main id="main" className="app__main" role="main">
+        <main id="main" ref={mainRef} className="app__main" role="main" tabIndex={-1}>
+          {view === 'profiles' ? (
+            <>
+            <ProfilePicker
+              profiles={profileList}
+              activeId={config.profileId}
+              onSelect={switchProfile}
+              onCreate={(data) => {
+                const created = profiles.create(data);
+                a11y.announce(`Added learner ${created.name}`);
+              }}
+              onRemove={(id) => {
+                profiles.remove(id);
+                if (id === config.profileId) setConfig(new ConfigManager());
+              }}
+            />
+            <BackupPanel
+              config={config}
+              profile={activeProfile}
+              games={registry.list()}
+              a11y={a11y}
+              createProfile={(data) => profiles.create(data)}
+              onImported={(id) => {
+                // fresh manager so theme, calibration and games reload from storage
+                setConfig(new ConfigManager(id));
+                setConsented(config.getConsent());
+                profiles.persist();
+              }}
+            />
+            </>
+          ) : view === 'progress' ? (
+            <ProgressView
+              key={config.profileId ?? 'guest'}
+              config={config}
+              games={registry.list()}
+              learner={activeProfile?.name ?? 'Guest'}
+            />
+          ) : view === 'controls' ? (
+            <section key={config.profileId ?? 'guest'} className="controls" aria-labelledby="controls-title">
+              <h2 id="controls-title">Controls for {activeProfile?.name ?? 'Guest'}</h2>
+              <BindingEditor
+                input={input}
+                a11y={a11y}
+                onChange={(bindings) => {
+                  if (config.getConsent()) config.saveValue('bindings', bindings);
+                }}
+              />
+              <DevicePanel
+                input={input}
+                a11y={a11y}
+                onChange={(devices) => {
+                  if (config.getConsent()) config.saveValue('devices', devices);
+                }}
+              />
+              <CalibrationWizard
+                input={input}
+                a11y={a11y}
+                onSave={(devices) => {
+                  if (config.getConsent()) config.saveValue('devices', devices);
+                }}
+              />
+              <TremorFilterPanel
+                input={input}
+                a11y={a11y}
+                onChange={(settings) => {
+                  if (config.getConsent()) config.saveValue('filter', settings);
+                }}
+              />
+              <SwitchScanPanel
+                input={input}
+                a11y={a11y}
+                onChange={(settings) => {
+                  if (config.getConsent()) config.saveValue('scanning', settings);
+                }}
+              />
+              <DwellPanel
+                dwell={dwell}
+                a11y={a11y}
+                onChange={(settings) => {
+                  if (config.getConsent()) config.saveValue('dwell', settings);
+                }}
+              />
+              <KioskPanel
+                kiosk={kiosk}
+                gameName={selected?.name ?? null}
+                onLock={() => {
+                  kiosk.lock(selected?.id ?? null, config.profileId);
+                  // the click is the user gesture fullscreen needs
+                  document.documentElement.requestFullscreen?.().catch(() => {});
+                }}
+              />
+            </section>
+          ) : (
+            <>
           <GameShell
-            key={selected?.id ?? 'empty'}
+            key={`${config.profileId ?? 'guest'}:${selected?.id ?? 'empty'}`}
             gameDef={selected}
             managers={{ a11y, theme, config, input, registry }}
+            showSettings={!!route.settings && !kioskState.locked}
+            locked={kioskState.locked}
+            preset={route.preset}
           />
+            <ScanIndicator input={input} a11y={a11y} />
+            </>
+          )}
         </main>
       </div>
 
@@ -80,10 +360,14 @@ export default function App() {
           onAccept={() => {
             config.setConsent(true);
             setConsented(true);
+            profiles.persist();
           }}
         />
       )}
 
+      {kioskState.locked && <KioskUnlock kiosk={kiosk} a11y={a11y} />}
+      <DwellRing dwell={dwell} />
+      <DwellAdjust dwell={dwell} />
   <ScreenReaderLive manager={a11y} />
     </div>
   );
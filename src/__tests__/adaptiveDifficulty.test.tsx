@@ -0,0 +1,88 @@
+import { render } from '@testing-library/react';
+import { AdaptiveDifficulty, ADAPT_WINDOW, sanitizeAdaptive, sanitizeLog, type Trial } from '../core/AdaptiveDifficulty';
+import type { GameEvent } from '../core/GameEvents';
+import { ConfigManager } from '../core/ConfigManager';
+import { SessionTracker } from '../core/SessionTracker';
+import { GameShell } from '../shared/components/GameShell';
+import type { GameConfigSchema } from '../types/game';
+import { fakeGame, fakeGameDef, shellManagers } from './fakeGame';
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    size: { type: 'number', default: 100, min: 50, max: 200, label: 'Size', adapt: { easier: 'higher' } },
+    speed: { type: 'number', default: 5, min: 1, max: 10, step: 1, label: 'Speed', adapt: { easier: 'lower' } },
+    sound: { type: 'boolean', default: true }
+  }
+};
+
+const slow: Trial = { timeMs: 9000, misses: 0, overshoots: 0, dwellAbandons: 0 };
+const quick: Trial = { timeMs: 800, misses: 0, overshoots: 0, dwellAbandons: 0 };
+
+const run = (a: AdaptiveDifficulty, trials: Trial[], config: Record<string, unknown>) => {
+  let result = null;
+  for (const t of trials) result = a.observe(t, config, 1) ?? result;
+  return result;
+};
+
+describe('adaptive difficulty', () => {
+  it('makes the game easier or harder only outside the success band, within limits', () => {
+    const config = { size: 100, speed: 5, sound: true };
+    expect(run(new AdaptiveDifficulty(schema), Array(ADAPT_WINDOW).fill(slow), config)).toBeNull(); // off by default
+
+    const a = new AdaptiveDifficulty(schema, { enabled: true, bounds: { size: [80, 110] } });
+    expect(run(a, Array(ADAPT_WINDOW).fill(slow), config)).toEqual({
+      config: { size: 110, speed: 4, sound: true },
+      adjustments: [
+        { at: 1, property: 'size', from: 100, to: 110, successRate: 0 },
+        { at: 1, property: 'speed', from: 5, to: 4, successRate: 0 }
+      ]
+    });
+
+    // 4 of 6 is inside the default 60-85% band
+    expect(run(a, [quick, quick, quick, quick, slow, { ...quick, overshoots: 1 }], config)).toBeNull();
+    expect(run(a, Array(ADAPT_WINDOW).fill(quick), config)?.config).toEqual({ size: 85, speed: 6, sound: true });
+    expect(a.getLog()).toHaveLength(4);
+  });
+
+  it('drops damaged log entries', () => {
+    const good = { at: 1, property: 'size', from: 100, to: 110, successRate: 0.5 };
+    expect(sanitizeLog([null, good, { ...good, from: '100' }, { ...good, property: 3 }, { ...good, at: NaN }])).toEqual([good]);
+    expect(sanitizeLog('oops')).toEqual([]);
+  });
+
+  it('keeps stored limits inside the schema and ignores unknown properties', () => {
+    expect(sanitizeAdaptive({ enabled: true, band: [0.9, 0.5], bounds: { size: [300, 20], colour: [1, 2] } }, schema)).toEqual({
+      enabled: true,
+      band: [0.5, 0.9],
+      goalMs: 5000,
+      bounds: { size: [50, 200] }
+    });
+  });
+
+  it('reports each collected target as a leg with its mistakes', () => {
+    const t = new SessionTracker();
+    t.start(0);
+    t.targetShown({ x: 0, y: 0 }, { x: 10, y: 0 }, 100);
+    t.overshoot();
+    t.miss();
+    expect(t.hit(1100)).toEqual({ timeMs: 1000, misses: 1, overshoots: 1, dwellAbandons: 0 });
+  });
+
+  it('is driven by trial events from the game when the shell hosts it', () => {
+    const { engine, game } = fakeGame();
+    const config = new ConfigManager();
+    config.setConsent(true);
+    config.saveValue('adaptive:adapt', { enabled: true });
+    const seen: GameEvent[] = [];
+    engine.events.on('adapted', (e) => seen.push(e));
+    render(<GameShell gameDef={fakeGameDef(game, { id: 'adapt', configSchema: schema })} managers={shellManagers(config)} />);
+
+    for (let i = 0; i < ADAPT_WINDOW; i++) engine.events.emit('trial', slow);
+    expect(seen).toHaveLength(1);
+    expect(seen[0]).toMatchObject({ config: { size: 115, speed: 4, sound: true } });
+    expect(config.loadValue<{ log?: unknown[] }>('adaptive:adapt', {}).log).toHaveLength(2);
+    config.setConsent(false);
+    localStorage.clear();
+  });
+});
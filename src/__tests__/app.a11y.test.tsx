@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { act, render, screen } from '@testing-library/react';
 import { axe } from 'jest-axe';
 import React from 'react';
 import App from '../App';
@@ -8,7 +8,8 @@ describe('App accessibility', () => {
   test('renders with basic landmarks', async () => {
     const { container } = render(<App />);
   expect(screen.getByRole('main')).toBeInTheDocument();
-  const results = await axe(container);
+  // the open game's HUD keeps re-rendering while axe runs
+  const results = await act(() => axe(container));
   if (results.violations.length) {
     // eslint-disable-next-line no-console
     console.log('\nAXE violations:', results.violations.map(v => ({ id: v.id, impact: v.impact, description: v.description })));
@@ -0,0 +1,78 @@
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { DEFAULT_CALIBRATION, InputManager, sanitizeCalibration, shapeInput } from '../core/InputManager';
+import { AccessibilityManager } from '../core/AccessibilityManager';
+import { measureReach, measureRest, measureTremor, proposeCalibration } from '../shared/utils/calibration';
+import { CalibrationWizard } from '../shared/components/calibration/CalibrationWizard';
+
+describe('gamepad calibration', () => {
+  it('shapes input with drift removed and per-direction reach', () => {
+    const c = sanitizeCalibration({
+      ...DEFAULT_CALIBRATION,
+      deadZoneX: 0.1,
+      responseCurve: 1,
+      offset: { x: 0.05, y: 0 },
+      reach: { up: 1, down: 1, left: 0.55, right: 1 }
+    });
+    expect(shapeInput({ x: 0.1, y: 0 }, c)).toEqual({ x: 0, y: 0 });
+    expect(shapeInput({ x: -0.5, y: 0 }, c).x).toBeCloseTo(-1);
+    expect(shapeInput({ x: 0.5, y: 0 }, c).x).toBeCloseTo(0.35 / 0.9);
+  });
+
+  it('upgrades calibrations saved with a single dead zone', () => {
+    const c = sanitizeCalibration({ deadZone: 0.3, responseCurve: 1 });
+    expect(c).toMatchObject({ deadZoneX: 0.3, deadZoneY: 0.3, axes: [0, 1] });
+  });
+
+  it('proposes dead zones, reach and curve from measurements', () => {
+    const rest = measureRest([
+      { x: 0.04, y: -0.02 },
+      { x: 0.08, y: 0.02 }
+    ]);
+    expect(rest.offset.x).toBeCloseTo(0.06);
+    expect(rest.driftX).toBeCloseTo(0.02);
+    expect(measureReach([{ x: 0.06, y: -0.7 }], rest.offset, 'up')).toBeCloseTo(0.7);
+    const tremor = measureTremor([
+      { x: 0.5, y: 0 },
+      { x: 0.58, y: 0 }
+    ]);
+    expect(tremor).toBeCloseTo(0.04);
+
+    const c = proposeCalibration(
+      { rest, reach: { up: 0.7, down: 1, left: 1, right: 0.4 }, tremor },
+      DEFAULT_CALIBRATION
+    );
+    expect(c).toMatchObject({ deadZoneX: 0.08, deadZoneY: 0.08, responseCurve: 1.4 });
+    expect(c.reach).toEqual({ up: 0.63, down: 0.9, left: 0.9, right: 0.36 });
+  });
+
+  it('asks for a gamepad before measuring', () => {
+    render(<CalibrationWizard input={new InputManager()} a11y={new AccessibilityManager()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Start calibration' }));
+    expect(screen.getByRole('status')).toHaveTextContent('No gamepad found');
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+  });
+
+  it('stops measuring when the gamepad is unplugged', () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation((cb) => frames.push(cb));
+    const tick = (now: number) => act(() => frames.splice(0).forEach((cb) => cb(now)));
+    const input = new InputManager();
+    let connected = true;
+    vi.spyOn(input, 'listGamepads').mockReturnValue([{ index: 0, id: 'Pad', axes: 4, buttons: 16 }]);
+    vi.spyOn(input, 'readAxes').mockImplementation(() => (connected ? [0, 0, 0, 0] : null));
+
+    render(<CalibrationWizard input={input} a11y={new AccessibilityManager()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Start calibration' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Start measuring' }));
+    tick(0);
+    expect(screen.getByRole('progressbar', { name: 'Measuring' })).toBeInTheDocument();
+
+    connected = false;
+    tick(16);
+    expect(screen.getByRole('alert')).toHaveTextContent('Controller disconnected');
+    expect(screen.queryByRole('progressbar')).toBeNull();
+    expect(screen.getByRole('button', { name: 'Start measuring' })).toBeInTheDocument();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,95 @@
+import type { GameConfigSchema } from '../types/game';
+import { ConfigManager, migrateConfig, validateConfig } from '../core/ConfigManager';
+
+const schema: GameConfigSchema = {
+  version: 2,
+  properties: {
+    size: { type: 'number', default: 60, min: 20, max: 100 },
+    shape: {
+      type: 'string',
+      default: 'circle',
+      options: [
+        { value: 'circle', label: 'Circle' },
+        { value: 'square', label: 'Square' }
+      ]
+    },
+    palette: {
+      type: 'number',
+      default: 0,
+      options: [
+        { value: 0, label: 'A' },
+        { value: 1, label: 'B' }
+      ]
+    },
+    sound: { type: 'boolean', default: true }
+  },
+  required: ['size']
+};
+
+describe('validateConfig', () => {
+  it('fills defaults and reports missing required fields only', () => {
+    const { config, repaired } = validateConfig(schema, {});
+    expect(config).toEqual({ size: 60, shape: 'circle', palette: 0, sound: true });
+    expect(repaired).toEqual(['size']);
+  });
+
+  it('coerces, clamps and rejects invalid values', () => {
+    const { config, repaired } = validateConfig(schema, {
+      size: '500',
+      shape: 'triangle',
+      palette: 1.5,
+      sound: 'false',
+      attraction: 3
+    });
+    expect(config).toEqual({ size: 100, shape: 'circle', palette: 0, sound: false });
+    expect(repaired.sort()).toEqual(['palette', 'shape', 'size', 'sound']);
+  });
+
+  it('leaves a valid config untouched', () => {
+    const valid = { size: 40, shape: 'square', palette: 1, sound: false };
+    expect(validateConfig(schema, valid)).toEqual({ config: valid, repaired: [] });
+  });
+});
+
+describe('ConfigManager', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('validates stored data on load', () => {
+    localStorage.setItem('agp:settings:demo:2', JSON.stringify({ size: 5, sound: 'yes' }));
+    const { config, repaired } = new ConfigManager().load('demo', schema);
+    expect(config).toMatchObject({ size: 20, sound: true });
+    expect(repaired).toEqual(['size', 'sound']);
+  });
+
+  it('migrates the newest older version and removes stale keys', () => {
+    localStorage.setItem('agp:settings:demo:0', JSON.stringify({ size: 30 }));
+    localStorage.setItem('agp:settings:demo:1', JSON.stringify({ radius: 45, attraction: 2 }));
+    const migrations = [
+      { from: 1, to: 2, migrate: ({ radius, attraction: _a, ...rest }: Record<string, unknown>) => ({ ...rest, size: radius }) }
+    ];
+    const config = new ConfigManager();
+    expect(config.load('demo', schema, migrations).config.size).toBe(45);
+    expect(localStorage.getItem('agp:settings:demo:2')).toBeNull(); // nothing written without consent
+
+    config.setConsent(true);
+    const result = config.load('demo', schema, migrations);
+    expect(result.migratedFrom).toBe(1);
+    expect(result.config.size).toBe(45);
+    expect(JSON.parse(localStorage.getItem('agp:settings:demo:2')!)).toEqual(result.config);
+    expect(localStorage.getItem('agp:settings:demo:1')).toBeNull();
+    expect(localStorage.getItem('agp:settings:demo:0')).toBeNull();
+  });
+
+  it('only runs migrations written for the stored version', () => {
+    const rename = vi.fn(({ old, ...rest }: Record<string, unknown>) => ({ ...rest, size: old }));
+    const steps = [{ from: 2, to: 3, migrate: rename }];
+    expect(migrateConfig({ size: 30 }, 1, 3, steps)).toEqual({ size: 30 });
+    expect(rename).not.toHaveBeenCalled();
+    expect(migrateConfig({ old: 30 }, 2, 3, steps)).toEqual({ size: 30 });
+  });
+
+  it('falls back to defaults on unreadable data', () => {
+    localStorage.setItem('agp:settings:demo:2', '{not json');
+    expect(new ConfigManager().load('demo', schema).config.size).toBe(60);
+  });
+});
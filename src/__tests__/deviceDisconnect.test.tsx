@@ -0,0 +1,82 @@
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { GameShell } from '../shared/components/GameShell';
+import { fakeGame, fakeGameDef, shellManagers } from './fakeGame';
+
+const gamepad = { index: 0, id: 'Joystick', axes: [0.8, 0], buttons: [] };
+const padEvent = (type: string) => Object.assign(new Event(type), { gamepad });
+
+describe('gamepad disconnect', () => {
+  let pads: (typeof gamepad)[] = [];
+  const original = navigator.getGamepads;
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] });
+    navigator.getGamepads = (() => pads) as unknown as typeof navigator.getGamepads;
+  });
+  afterEach(() => {
+    pads = [];
+    navigator.getGamepads = original;
+    vi.useRealTimers();
+  });
+
+  const setup = () => {
+    const { game } = fakeGame();
+    const pause = vi.spyOn(game, 'pause');
+    const resume = vi.spyOn(game, 'resume');
+    const managers = shellManagers();
+    render(<GameShell gameDef={fakeGameDef(game)} managers={managers} />);
+    return { pause, resume, input: managers.input };
+  };
+
+  it('pauses, stops movement and resumes when the pad returns', () => {
+    pads = [gamepad];
+    const { pause, resume, input } = setup();
+    const moves: { x: number; y: number }[] = [];
+    input.onMove((v) => moves.push(v));
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    act(() => {
+      vi.advanceTimersByTime(20);
+    });
+
+    pads = [];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepaddisconnected'));
+    });
+    expect(pause).toHaveBeenCalledTimes(1);
+    expect(moves.at(-1)).toEqual({ x: 0, y: 0 });
+    expect(screen.getByRole('alertdialog', { name: 'Gamepad disconnected' })).toBeInTheDocument();
+
+    pads = [gamepad];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepadconnected'));
+    });
+    expect(resume).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+    pads = [];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepaddisconnected'));
+    });
+  });
+
+  it('waits for confirmation when automatic resume is off', () => {
+    pads = [gamepad];
+    const { resume } = setup();
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    pads = [];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepaddisconnected'));
+    });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Resume automatically when it reconnects' }));
+
+    pads = [gamepad];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepadconnected'));
+    });
+    expect(resume).not.toHaveBeenCalled();
+    fireEvent.click(within(screen.getByRole('alertdialog')).getByRole('button', { name: 'Resume' }));
+    expect(resume).toHaveBeenCalledTimes(1);
+    pads = [];
+    act(() => {
+      window.dispatchEvent(padEvent('gamepaddisconnected'));
+    });
+  });
+});
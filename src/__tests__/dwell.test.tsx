@@ -0,0 +1,158 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { useState } from 'react';
+import { DwellManager, sanitizeDwell } from '../core/DwellManager';
+import { AccessibilityManager } from '../core/AccessibilityManager';
+import { ThemeManager } from '../core/ThemeManager';
+import { A11yToolbar } from '../shared/components/A11yToolbar';
+import { DwellAdjust } from '../shared/components/DwellAdjust';
+import { SchemaSettings } from '../shared/components/settings/SchemaSettings';
+import type { GameConfigSchema } from '../types/game';
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    size: { type: 'number', default: 60, min: 20, max: 100, step: 10, label: 'Size', unit: 'px' },
+    shape: {
+      type: 'string',
+      default: 'circle',
+      label: 'Shape',
+      options: [
+        { value: 'circle', label: 'Circle' },
+        { value: 'square', label: 'Square' }
+      ]
+    }
+  }
+};
+
+function Settings({ onChange }: { onChange: (c: Record<string, unknown>) => void }) {
+  const [config, setConfig] = useState<Record<string, unknown>>({ size: 60, shape: 'circle' });
+  return (
+    <SchemaSettings
+      schema={schema}
+      config={config}
+      onChange={(next) => {
+        setConfig(next);
+        onChange(next);
+      }}
+    />
+  );
+}
+
+const hover = (el: Element, pointerType = 'mouse') =>
+  el.dispatchEvent(Object.assign(new MouseEvent('pointermove', { bubbles: true, clientX: 5, clientY: 5 }), { pointerType }));
+
+describe('dwell click', () => {
+  beforeEach(() => vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] }));
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('clicks a control after the dwell time, once, then waits out the cooldown', () => {
+    const dwell = new DwellManager();
+    dwell.setSettings({ enabled: true, dwellMs: 1000, cooldownMs: 2000 });
+    const detach = dwell.attach();
+    const a = document.createElement('button');
+    const b = document.createElement('button');
+    const clickA = vi.fn();
+    const clickB = vi.fn();
+    a.addEventListener('click', clickA);
+    b.addEventListener('click', clickB);
+    document.body.append(a, b);
+    const progress: (number | null)[] = [];
+    dwell.onProgress((p) => progress.push(p?.progress ?? null));
+
+    hover(a);
+    vi.advanceTimersByTime(500);
+    expect(clickA).not.toHaveBeenCalled();
+    expect(progress.at(-1)).toBeGreaterThan(0.4);
+    vi.advanceTimersByTime(600);
+    expect(clickA).toHaveBeenCalledTimes(1);
+    expect(progress.at(-1)).toBeNull();
+
+    // resting on the same control doesn't repeat it
+    hover(a);
+    vi.advanceTimersByTime(3000);
+    expect(clickA).toHaveBeenCalledTimes(1);
+
+    hover(b);
+    vi.advanceTimersByTime(1100);
+    expect(clickB).toHaveBeenCalledTimes(1);
+    hover(a);
+    vi.advanceTimersByTime(1100);
+    expect(clickA).toHaveBeenCalledTimes(1); // still cooling down
+    vi.advanceTimersByTime(2000);
+    expect(clickA).toHaveBeenCalledTimes(2);
+    detach();
+  });
+
+  it('ignores touch, disabled controls and the off setting', () => {
+    const dwell = new DwellManager();
+    const detach = dwell.attach();
+    const button = document.createElement('button');
+    const click = vi.fn();
+    button.addEventListener('click', click);
+    document.body.append(button);
+
+    hover(button);
+    vi.advanceTimersByTime(3000);
+    dwell.setSettings({ enabled: true });
+    hover(button, 'touch');
+    vi.advanceTimersByTime(3000);
+    button.disabled = true;
+    hover(button);
+    vi.advanceTimersByTime(3000);
+    expect(click).not.toHaveBeenCalled();
+    expect(sanitizeDwell({ enabled: 'yes', dwellMs: 50 })).toEqual({ enabled: false, dwellMs: 300, cooldownMs: 1000 });
+    detach();
+  });
+
+  it('changes sliders and drop-downs with on-screen buttons', () => {
+    const dwell = new DwellManager();
+    dwell.setSettings({ enabled: true, dwellMs: 1000, cooldownMs: 500 });
+    const detach = dwell.attach();
+    const onChange = vi.fn();
+    render(
+      <>
+        <Settings onChange={onChange} />
+        <DwellAdjust dwell={dwell} />
+      </>
+    );
+    const wait = (ms: number) => act(() => vi.advanceTimersByTime(ms));
+
+    hover(screen.getByRole('slider', { name: 'Size' }));
+    wait(1600);
+    const panel = screen.getByRole('group', { name: 'Change Size' });
+    expect(panel).toHaveTextContent('60 px');
+    hover(screen.getByRole('button', { name: 'More Size' }));
+    wait(1600);
+    expect(onChange).toHaveBeenLastCalledWith({ size: 70, shape: 'circle' });
+    expect(panel).toHaveTextContent('70 px');
+    // resting on a step button keeps stepping
+    wait(1600);
+    expect(onChange).toHaveBeenLastCalledWith({ size: 80, shape: 'circle' });
+    hover(screen.getByRole('button', { name: 'Done' }));
+    wait(1600);
+    expect(screen.queryByRole('group', { name: 'Change Size' })).toBeNull();
+
+    hover(screen.getByRole('combobox', { name: /Shape/ }));
+    wait(1600);
+    expect(screen.getByRole('button', { name: 'Circle' })).toHaveAttribute('aria-pressed', 'true');
+    hover(screen.getByRole('button', { name: 'Square' }));
+    wait(1600);
+    expect(onChange).toHaveBeenLastCalledWith({ size: 80, shape: 'square' });
+    expect(screen.queryByRole('group', { name: 'Change Shape' })).toBeNull();
+    detach();
+  });
+
+  it('toggles from the accessibility toolbar', () => {
+    const dwell = new DwellManager();
+    const onDwellChange = vi.fn();
+    render(<A11yToolbar theme={new ThemeManager()} a11y={new AccessibilityManager()} dwell={dwell} onDwellChange={onDwellChange} />);
+    const toggle = screen.getByRole('button', { name: 'Dwell click' });
+    expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    fireEvent.click(toggle);
+    expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    expect(onDwellChange).toHaveBeenCalledWith(expect.objectContaining({ enabled: true }));
+  });
+});
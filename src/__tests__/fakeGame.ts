@@ -0,0 +1,43 @@
+import { AccessibilityManager } from '../core/AccessibilityManager';
+import { ConfigManager } from '../core/ConfigManager';
+import { GameEngine } from '../core/GameEngine';
+import { GameRegistry } from '../core/GameRegistry';
+import { InputManager } from '../core/InputManager';
+import { ThemeManager } from '../core/ThemeManager';
+import type { GameConfigSchema, GameDefinition, IGame } from '../types/game';
+
+// Minimal IGame whose lifecycle drives a real engine; override what a test needs to observe
+export function fakeGame(overrides: Partial<IGame> = {}) {
+  const engine = new GameEngine();
+  const game = {
+    engine,
+    initialize: () => {},
+    updateConfig: () => {},
+    cleanup: () => {},
+    start: () => engine.start(),
+    pause: () => engine.pause(),
+    resume: () => engine.resume(),
+    reset: () => engine.reset(),
+    getState: () => engine.getState(),
+    getMetrics: () => ({}),
+    ...overrides
+  } as unknown as IGame;
+  return { engine, game };
+}
+
+export function fakeGameDef(
+  game: IGame,
+  { id = 'test', name = 'Test game', configSchema = { version: 1, properties: {} } as GameConfigSchema } = {}
+) {
+  return { id, name, configSchema, createInstance: () => game } as unknown as GameDefinition;
+}
+
+export function shellManagers(config = new ConfigManager()) {
+  return {
+    a11y: new AccessibilityManager(),
+    theme: new ThemeManager(),
+    config,
+    input: new InputManager(),
+    registry: new GameRegistry()
+  };
+}
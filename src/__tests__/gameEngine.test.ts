@@ -0,0 +1,55 @@
+import { GameEngine } from '../core/GameEngine';
+
+describe('GameEngine', () => {
+  beforeEach(() => vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] }));
+  afterEach(() => vi.useRealTimers());
+
+  it('runs fixed-step updates only while playing and frames always', () => {
+    const engine = new GameEngine(10);
+    const update = vi.fn();
+    const frame = vi.fn();
+    engine.onUpdate(update);
+    engine.onFrame(frame);
+    engine.run();
+
+    vi.advanceTimersByTime(100);
+    expect(update).not.toHaveBeenCalled();
+    expect(frame).toHaveBeenCalled();
+
+    engine.start();
+    vi.advanceTimersByTime(100);
+    const steps = update.mock.calls.length;
+    expect(steps).toBeGreaterThanOrEqual(9);
+    expect(steps).toBeLessThanOrEqual(11);
+    expect(update).toHaveBeenCalledWith(10);
+    expect(engine.getState().timestamp).toBe(steps * 10);
+
+    engine.pause();
+    vi.advanceTimersByTime(100);
+    expect(update).toHaveBeenCalledTimes(steps);
+
+    engine.stop();
+    frame.mockClear();
+    vi.advanceTimersByTime(100);
+    expect(frame).not.toHaveBeenCalled();
+  });
+
+  it('tracks lifecycle and score and reports each change', () => {
+    const engine = new GameEngine();
+    const events: string[] = [];
+    engine.events.onAny((e) => 'state' in e && events.push(`${e.type}:${e.state.score}`));
+
+    engine.pause(); // nothing to pause before start
+    engine.start();
+    engine.addScore();
+    engine.addScore(2);
+    engine.pause();
+    expect(engine.getState()).toMatchObject({ started: true, paused: true, score: 3 });
+    engine.resume();
+    engine.complete();
+    expect(engine.getState()).toMatchObject({ started: false, completed: true, score: 3 });
+    engine.reset();
+    expect(engine.getState()).toEqual({ started: false, paused: false, completed: false, score: 0, timestamp: 0 });
+    expect(events).toEqual(['start:0', 'scored:1', 'scored:3', 'pause:3', 'resume:3', 'completed:3', 'reset:0']);
+  });
+});
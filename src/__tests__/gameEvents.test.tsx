@@ -0,0 +1,41 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { GameEventBus, type GameEvent } from '../core/GameEvents';
+import { GameShell } from '../shared/components/GameShell';
+import { fakeGame, fakeGameDef, shellManagers } from './fakeGame';
+
+describe('game events', () => {
+  it('delivers typed events to matching and catch-all listeners until unsubscribed', () => {
+    const bus = new GameEventBus();
+    const sources: string[] = [];
+    const all: string[] = [];
+    const off = bus.on('inputSourceChanged', (e) => sources.push(e.source));
+    bus.onAny((e) => all.push(e.type));
+
+    bus.emit('inputSourceChanged', { source: 'gamepad' });
+    bus.emit('configChanged', { config: { speed: 2 } });
+    off();
+    bus.emit('inputSourceChanged', { source: 'keyboard' });
+    expect(sources).toEqual(['gamepad']);
+    expect(all).toEqual(['inputSourceChanged', 'configChanged', 'inputSourceChanged']);
+  });
+
+  it('lets the shell follow lifecycle changes made by the game itself', () => {
+    const { engine, game } = fakeGame();
+    const seen: GameEvent[] = [];
+    engine.events.onAny((e) => seen.push(e));
+    render(<GameShell gameDef={fakeGameDef(game)} managers={shellManagers()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    expect(screen.getByRole('button', { name: 'Pause' })).toHaveAttribute('aria-pressed', 'true');
+    // e.g. the learner's pause key handled inside the game
+    act(() => engine.pause());
+    expect(screen.getByRole('button', { name: 'Resume' })).toHaveAttribute('aria-pressed', 'false');
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      window.dispatchEvent(new KeyboardEvent('keyup', { key: 'ArrowRight' }));
+    });
+    expect(seen.map((e) => e.type)).toEqual(['start', 'pause', 'inputSourceChanged']);
+    expect(seen.at(-1)).toMatchObject({ source: 'keyboard' });
+  });
+});
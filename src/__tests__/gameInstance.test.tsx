@@ -0,0 +1,74 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ConfigManager } from '../core/ConfigManager';
+import { SessionHistory } from '../core/SessionHistory';
+import { GameShell } from '../shared/components/GameShell';
+import targetCollection, { TargetCollectionGame } from '../games/TargetCollection';
+import type { GameConfig } from '../types/game';
+import { fakeGame, fakeGameDef, shellManagers } from './fakeGame';
+
+describe('game instances', () => {
+  it('plays Target Collection without its component', () => {
+    const game = new TargetCollectionGame();
+    game.initialize({ targetSize: 80, moveSpeed: 99 });
+    expect(game.getConfig()).toMatchObject({ targetSize: 80, moveSpeed: 10 });
+
+    game.collect(); // not started yet
+    game.start();
+    game.collect();
+    game.collect();
+    game.miss();
+    expect(game.getState()).toMatchObject({ started: true, score: 2 });
+    expect(game.getMetrics()).toMatchObject({ targetsCollected: 2, misses: 1 });
+
+    game.updateConfig({ collectionMode: 'press' });
+    expect(game.getConfig()).toMatchObject({ targetSize: 80, collectionMode: 'press' });
+    game.cleanup();
+  });
+
+  it('records the session and starts over on the bound reset key', () => {
+    const game = new TargetCollectionGame();
+    const config = new ConfigManager();
+    config.setConsent(true);
+    render(<GameShell gameDef={{ ...targetCollection, createInstance: () => game }} managers={shellManagers(config)} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    act(() => game.collect());
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'r' }));
+      window.dispatchEvent(new KeyboardEvent('keyup', { key: 'r' }));
+    });
+    expect(new SessionHistory(config).list(targetCollection.id).map((r) => r.metrics.targetsCollected)).toEqual([1]);
+    expect(game.getMetrics().targetsCollected).toBe(0);
+    expect(game.getState()).toMatchObject({ started: false, score: 0 });
+    config.setConsent(false);
+    localStorage.clear();
+  });
+
+  it('gives the instance its saved config and follows its state in the shell', () => {
+    const configs: GameConfig[] = [];
+    const { engine, game } = fakeGame({
+      initialize: (c) => void configs.push(c),
+      updateConfig: (c) => void configs.push(c as GameConfig)
+    });
+    const schema = { version: 1, properties: { speed: { type: 'number', default: 3, min: 1, max: 5 } } } as const;
+    const config = new ConfigManager();
+    config.setConsent(true);
+    config.save('test', schema, { speed: 4 });
+    render(<GameShell gameDef={fakeGameDef(game, { configSchema: schema })} managers={shellManagers(config)} />);
+    expect(configs).toEqual([{ speed: 4 }]);
+    expect(screen.getByText('Ready')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+    act(() => engine.addScore(3));
+    expect(screen.getByText('Playing')).toBeInTheDocument();
+    expect(screen.getByText('Score 3')).toBeInTheDocument();
+
+    // an edit that was never saved is still what the session was played with
+    act(() => engine.events.emit('configChanged', { config: { speed: 2 } }));
+    expect(configs.at(-1)).toEqual({ speed: 2 });
+
+    act(() => engine.complete());
+    expect(screen.getByText('Finished')).toBeInTheDocument();
+    expect(new SessionHistory(config).list('test').map((r) => r.config)).toEqual([{ speed: 2 }]);
+    config.setConsent(false);
+  });
+});
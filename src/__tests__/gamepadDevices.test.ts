@@ -0,0 +1,80 @@
+import { InputManager, sanitizeDevices } from '../core/InputManager';
+
+type Pad = { index: number; id: string; axes: number[]; buttons: { pressed: boolean }[] };
+
+const pad = (index: number, id: string): Pad => ({
+  index,
+  id,
+  axes: [0, 0],
+  buttons: Array.from({ length: 4 }, () => ({ pressed: false }))
+});
+
+describe('gamepad devices', () => {
+  let pads: Pad[] = [];
+  const original = navigator.getGamepads;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['requestAnimationFrame', 'cancelAnimationFrame'] });
+    navigator.getGamepads = (() => pads) as unknown as typeof navigator.getGamepads;
+  });
+  afterEach(() => {
+    pads = [];
+    window.dispatchEvent(new Event('gamepaddisconnected'));
+    navigator.getGamepads = original;
+    vi.useRealTimers();
+  });
+
+  it('moves with one pad and selects with another', () => {
+    const box = pad(0, 'Button box');
+    const stick = pad(1, 'Joystick');
+    pads = [box, stick];
+    const input = new InputManager();
+    input.setFilter({ kind: 'none', jitter: 0 });
+    input.setDevices({ movement: 'Joystick', buttons: 'Button box' });
+    const moves: { x: number; y: number }[] = [];
+    const trigger = vi.fn();
+    input.onMove((v, source) => source === 'gamepad' && moves.push(v));
+    input.onTrigger(trigger);
+
+    box.axes = [-1, 0];
+    stick.axes = [1, 0];
+    vi.advanceTimersByTime(20);
+    expect(input.getMovementDevice()).toBe('Joystick');
+    expect(moves.at(-1)).toEqual({ x: 1, y: 0 });
+
+    stick.buttons[0]!.pressed = true;
+    vi.advanceTimersByTime(20);
+    expect(trigger).not.toHaveBeenCalled();
+    box.buttons[0]!.pressed = true;
+    vi.advanceTimersByTime(20);
+    expect(trigger).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to a connected pad and keeps calibration per device', () => {
+    const other = pad(0, 'Other pad');
+    pads = [other];
+    const input = new InputManager();
+    input.setFilter({ kind: 'none', jitter: 0 });
+    input.setDevices({ movement: 'Joystick' });
+    input.setDeviceCalibration('Other pad', { ...input.calibrationFor(null), deadZoneX: 0.6 });
+    const moves: { x: number; y: number }[] = [];
+    input.onMove((v) => moves.push(v));
+
+    other.axes = [0.5, 0];
+    vi.advanceTimersByTime(20);
+    expect(input.getMovementDevice()).toBe('Other pad');
+    expect(moves.at(-1)).toEqual({ x: 0, y: 0 });
+    expect(input.calibrationFor('Joystick').deadZoneX).toBe(input.calibrationFor(null).deadZoneX);
+
+    input.setDeviceCalibration('Other pad', null);
+    expect(input.getDevices().calibrations).toEqual({});
+  });
+
+  it('drops damaged device settings', () => {
+    expect(sanitizeDevices({ movement: 3, buttons: 'Box', calibrations: { Box: { deadZone: 0.2 } } })).toMatchObject({
+      movement: null,
+      buttons: 'Box',
+      calibrations: { Box: { deadZoneX: 0.2, deadZoneY: 0.2 } }
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import { InputManager } from '../core/InputManager';
+import { AccessibilityManager } from '../core/AccessibilityManager';
+import { DEFAULT_BINDINGS, findConflicts, sanitizeBindings } from '../core/InputBindings';
+import { BindingEditor } from '../shared/components/BindingEditor';
+
+const key = (type: 'keydown' | 'keyup', k: string) => window.dispatchEvent(new KeyboardEvent(type, { key: k }));
+
+describe('input bindings', () => {
+  it('moves and fires actions from remapped keys', () => {
+    const input = new InputManager();
+    input.setBindings({ ...DEFAULT_BINDINGS, left: [{ kind: 'key', key: 'j' }], pause: [{ kind: 'key', key: 'k' }] });
+    const moves: { x: number; y: number }[] = [];
+    const actions: string[] = [];
+    input.onMove((v) => moves.push(v));
+    input.onAction((a) => actions.push(a));
+
+    key('keydown', 'J');
+    expect(moves.at(-1)).toEqual({ x: -1, y: 0 });
+    key('keyup', 'J');
+    key('keydown', 'a');
+    expect(moves.at(-1)).toEqual({ x: 0, y: 0 });
+    key('keyup', 'a');
+    key('keydown', 'k');
+    key('keyup', 'k');
+    key('keydown', 'p');
+    key('keyup', 'p');
+    expect(actions).toEqual(['pause']);
+  });
+
+  it('finds conflicts but lets scan step share the select inputs', () => {
+    expect(findConflicts(DEFAULT_BINDINGS).size).toBe(0);
+    const clash = { ...DEFAULT_BINDINGS, reset: [{ kind: 'key' as const, key: 'p' }] };
+    expect(findConflicts(clash).get('key:p')).toEqual(['pause', 'reset']);
+  });
+
+  it('repairs stored bindings', () => {
+    const clean = sanitizeBindings({ up: [{ kind: 'key', key: 'tab' }, { kind: 'button', button: 4 }], down: 'x' });
+    expect(clean.up).toEqual([{ kind: 'button', button: 4 }]);
+    expect(clean.down).toEqual(DEFAULT_BINDINGS.down);
+  });
+
+  it('captures a key and asks before moving it from another action', () => {
+    const input = new InputManager();
+    const onChange = vi.fn();
+    render(<BindingEditor input={input} a11y={new AccessibilityManager()} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add key or button for Recenter' }));
+    act(() => key('keydown', 'q'));
+    expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({ recenter: expect.arrayContaining([{ kind: 'key', key: 'q' }]) }));
+    expect(screen.getByRole('button', { name: 'Remove Q from Recenter' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add key or button for Reset' }));
+    act(() => key('keydown', 'p'));
+    expect(screen.getByRole('alert')).toHaveTextContent('P is already used for Pause.');
+    fireEvent.click(screen.getByRole('button', { name: 'Move to Reset' }));
+    expect(input.getBindings().pause).toEqual([{ kind: 'button', button: 9 }]);
+    expect(input.getBindings().reset).toContainEqual({ kind: 'key', key: 'p' });
+  });
+});
@@ -0,0 +1,28 @@
+import { VectorFilter, sanitizeFilter } from '../core/InputFilter';
+
+const run = (f: VectorFilter, points: { x: number; y: number }[]) => points.map((p, i) => f.next(p, i * 16));
+
+describe('input filter', () => {
+  it('passes input straight through when off', () => {
+    const f = new VectorFilter({ kind: 'none', strength: 1, jitter: 0 }, 1);
+    expect(run(f, [{ x: 0, y: 0 }, { x: 1, y: -1 }]).at(-1)).toEqual({ x: 1, y: -1 });
+  });
+
+  it('damps shake with low-pass and moving average', () => {
+    const shake = Array.from({ length: 20 }, (_, i) => ({ x: i % 2 ? 0.2 : -0.2, y: 0 }));
+    for (const kind of ['low-pass', 'moving-average', 'one-euro'] as const) {
+      const out = run(new VectorFilter({ kind, strength: 0.8, jitter: 0 }, 0.1), shake);
+      expect(Math.abs(out.at(-1)!.x)).toBeLessThan(0.1);
+    }
+  });
+
+  it('holds still for changes under the jitter threshold', () => {
+    const f = new VectorFilter({ kind: 'none', strength: 0, jitter: 0.5 }, 10);
+    const out = run(f, [{ x: 100, y: 100 }, { x: 103, y: 101 }, { x: 110, y: 100 }]);
+    expect(out).toEqual([{ x: 100, y: 100 }, { x: 100, y: 100 }, { x: 110, y: 100 }]);
+  });
+
+  it('repairs stored settings', () => {
+    expect(sanitizeFilter({ kind: 'bogus', strength: 4 })).toEqual({ kind: 'low-pass', strength: 1, jitter: 0 });
+  });
+});
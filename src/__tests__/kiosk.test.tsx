@@ -0,0 +1,90 @@
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import App from '../App';
+import { KioskManager, UNLOCK_HOLD_MS } from '../core/KioskManager';
+import { KioskPanel } from '../shared/components/KioskPanel';
+
+describe('supervised mode', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    history.replaceState(null, '', location.pathname);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('stays locked across reloads until the PIN or the unlock hold', () => {
+    vi.useFakeTimers();
+    const kiosk = new KioskManager();
+    kiosk.setPin('12a34');
+    kiosk.lock('target-collection', 'sam');
+    expect(new KioskManager().getState()).toEqual({ locked: true, gameId: 'target-collection', profileId: 'sam' });
+    expect(kiosk.unlock('0000')).toBe(false);
+
+    const detach = kiosk.attach();
+    for (const key of ['Control', 'Alt', 'u']) window.dispatchEvent(new KeyboardEvent('keydown', { key }));
+    vi.advanceTimersByTime(UNLOCK_HOLD_MS - 100);
+    window.dispatchEvent(new KeyboardEvent('keyup', { key: 'u' }));
+    vi.advanceTimersByTime(200);
+    expect(kiosk.isLocked()).toBe(true);
+    kiosk.startHold(); // the on-screen hold needs the PIN once one is set
+    vi.advanceTimersByTime(UNLOCK_HOLD_MS);
+    expect(kiosk.isLocked()).toBe(true);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'U' }));
+    vi.advanceTimersByTime(UNLOCK_HOLD_MS);
+    expect(kiosk.isLocked()).toBe(false);
+    detach();
+
+    kiosk.lock('target-collection');
+    expect(kiosk.unlock('1234')).toBe(true);
+    expect(kiosk.hasPin()).toBe(true);
+  });
+
+  it('only offers the Supervisor hold while no PIN is set', () => {
+    render(<KioskPanel kiosk={new KioskManager()} gameName="Demo" onLock={() => {}} />);
+    expect(screen.getByText(/hold Ctrl \+ .* or the Supervisor button for/)).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Supervisor PIN (optional)'), { target: { value: '1234' } });
+    expect(screen.getByText(/press the Supervisor button and enter the PIN/)).toBeInTheDocument();
+    expect(screen.queryByText(/or the Supervisor button for/)).toBeNull();
+  });
+
+  it('hides menus and settings, keeps the learner in the game and unlocks with the keypad', () => {
+    history.replaceState(null, '', '#/game/target-collection');
+    const { unmount } = render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: /Controls/ }));
+    fireEvent.change(screen.getByLabelText('Supervisor PIN (optional)'), { target: { value: '42' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Lock to Target Collection' }));
+
+    expect(location.hash).toBe('#/game/target-collection');
+    expect(screen.queryByRole('complementary', { name: 'Sidebar' })).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Fullscreen' })).toBeNull();
+    expect(document.querySelector('.game-area--locked')).not.toBeNull();
+
+    act(() => {
+      history.replaceState(null, '', '#/progress');
+      window.dispatchEvent(new Event('popstate'));
+    });
+    expect(location.hash).toBe('#/game/target-collection');
+
+    unmount();
+    render(<App />);
+    expect(screen.queryByRole('complementary', { name: 'Sidebar' })).toBeNull();
+
+    vi.useFakeTimers();
+    fireEvent.pointerDown(screen.getByRole('button', { name: 'Supervisor' }));
+    act(() => vi.advanceTimersByTime(UNLOCK_HOLD_MS));
+    expect(screen.queryByRole('complementary', { name: 'Sidebar' })).toBeNull();
+    vi.useRealTimers();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Supervisor' }));
+    const keypad = screen.getByRole('dialog', { name: 'Supervisor unlock' });
+    fireEvent.click(within(keypad).getByRole('button', { name: '4' }));
+    fireEvent.click(within(keypad).getByRole('button', { name: '1' }));
+    fireEvent.click(within(keypad).getByRole('button', { name: 'Unlock' }));
+    expect(within(keypad).getByText('Wrong PIN. Try again.')).toBeInTheDocument();
+
+    fireEvent.click(within(keypad).getByRole('button', { name: '4' }));
+    fireEvent.click(within(keypad).getByRole('button', { name: '2' }));
+    fireEvent.click(within(keypad).getByRole('button', { name: 'Unlock' }));
+    expect(screen.getByRole('complementary', { name: 'Sidebar' })).toBeInTheDocument();
+    expect(screen.queryByRole('dialog', { name: 'Supervisor unlock' })).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import def, { MemoryMatchGame } from '../games/MemoryMatch';
+import { ConfigManager } from '../core/ConfigManager';
+import { GameShell } from '../shared/components/GameShell';
+import type { Trial } from '../core/AdaptiveDifficulty';
+import { shellManagers } from './fakeGame';
+
+const key = (k: string) =>
+  act(() => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: k }));
+    window.dispatchEvent(new KeyboardEvent('keyup', { key: k }));
+  });
+
+// indexes of the other card with the same face, and of one with a different face
+const partners = (game: MemoryMatchGame, i: number) => {
+  const cards = game.getCards();
+  const face = cards[i]!.face;
+  return {
+    pair: cards.findIndex((c, j) => j !== i && c.face === face),
+    other: cards.findIndex((c) => c.face !== face)
+  };
+};
+
+describe('Memory Match', () => {
+  it('finds pairs without its component and reports each attempt', () => {
+    const game = new MemoryMatchGame();
+    game.initialize({ grid: '2x2', peekMs: 99999 });
+    expect(game.getConfig()).toMatchObject({ grid: '2x2', peekMs: 8000 });
+    expect(game.getCards().map((c) => c.face).sort()).toEqual([0, 0, 1, 1]);
+
+    const trials: Trial[] = [];
+    game.engine.events.on('trial', (e) => trials.push(e));
+    expect(game.select(0)).toEqual({ kind: 'ignored' }); // not started yet
+    game.start();
+    const { pair, other } = partners(game, 0);
+    game.select(0, 0);
+    expect(game.select(other, 2000)).toEqual({ kind: 'mismatch', card: other, other: 0, done: false });
+    // the wrong pair turns back over with the next selection
+    expect(game.select(0, 3000)).toEqual({ kind: 'flipped', card: 0 });
+    expect(game.getCards()[other]!.state).toBe('down');
+    expect(game.select(pair, 4000)).toEqual({ kind: 'match', card: pair, other: 0, done: false });
+    expect(game.select(pair)).toEqual({ kind: 'ignored' });
+
+    const rest = [0, 1, 2, 3].filter((i) => i !== 0 && i !== pair);
+    game.select(rest[0]!);
+    expect(game.select(rest[1]!)).toMatchObject({ kind: 'match', done: true });
+    expect(game.getState()).toMatchObject({ completed: true, score: 2 });
+    expect(game.getTurns()).toBe(3);
+    expect(game.getMetrics()).toMatchObject({ targetsCollected: 2, misses: 1 });
+    expect(trials.slice(0, 2)).toMatchObject([
+      { timeMs: 2000, misses: 1, overshoots: 0, dwellAbandons: 0, success: false },
+      { timeMs: 1000, misses: 0, overshoots: 0, dwellAbandons: 0, success: true }
+    ]);
+
+    game.updateConfig({ grid: '4x4' });
+    expect(game.getCards()).toHaveLength(16);
+    game.cleanup();
+  });
+
+  it('starts over when the board size changes during a game', () => {
+    const game = new MemoryMatchGame();
+    game.initialize({ grid: '2x2' });
+    game.start();
+    const { pair } = partners(game, 0);
+    game.select(0);
+    game.select(pair);
+    game.pause();
+    game.updateConfig({ grid: '3x2' });
+    expect(game.getState()).toMatchObject({ started: false, score: 0 });
+    expect(game.getTurns()).toBe(0);
+    expect(game.getMetrics().targetsCollected).toBe(0);
+    expect(game.getCards().every((c) => c.state === 'down')).toBe(true);
+    expect(game.pairsLeft()).toBe(3);
+    game.cleanup();
+  });
+
+  describe('played in the shell', () => {
+    beforeEach(() => vi.useFakeTimers());
+    afterEach(() => {
+      vi.useRealTimers();
+      localStorage.clear();
+    });
+
+    const setup = (saved: Record<string, unknown>) => {
+      const game = new MemoryMatchGame();
+      const config = new ConfigManager();
+      config.setConsent(true);
+      config.save('memory-match', def.configSchema, saved);
+      const managers = shellManagers(config);
+      const announce = vi.spyOn(managers.a11y, 'announce');
+      render(<GameShell gameDef={{ ...def, createInstance: () => game }} managers={managers} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Play' }));
+      return { game, announce };
+    };
+
+    it('moves between cards with the arrows and speaks what is turned over', () => {
+      const { game, announce } = setup({ grid: '2x2', cardSet: 'pictures', peek: true, peekMs: 2000 });
+      expect(screen.getAllByRole('img', { name: /row/ })).toHaveLength(4);
+      expect(announce).toHaveBeenLastCalledWith('Look at the cards');
+      key(' '); // no turning cards while peeking
+      expect(game.getTurns()).toBe(0);
+      expect(screen.queryAllByRole('img', { name: /^Face down/ })).toHaveLength(0);
+      act(() => vi.advanceTimersByTime(2000));
+      expect(screen.getAllByRole('img', { name: /^Face down/ })).toHaveLength(4);
+
+      key('ArrowRight');
+      expect(announce).toHaveBeenLastCalledWith('Face down, row 1, column 2');
+      expect(screen.getByRole('img', { name: 'Face down, row 1, column 2' })).toHaveAttribute('aria-current', 'true');
+      key(' ');
+      const names = ['Dog', 'Cat'];
+      const first = names[game.getCards()[1]!.face];
+      expect(announce).toHaveBeenLastCalledWith(first);
+      expect(screen.getByRole('img', { name: `${first}, row 1, column 2` })).toBeInTheDocument();
+
+      const { pair } = partners(game, 1);
+      if (pair === 0) key('ArrowLeft');
+      else key('ArrowDown');
+      if (pair === 2) key('ArrowLeft');
+      key(' ');
+      expect(announce).toHaveBeenLastCalledWith(`${first}. A match! 1 pair left`);
+      expect(screen.getByText('Pairs 1 of 2')).toBeInTheDocument();
+    });
+
+    it('steps through the cards still in play when scanning', () => {
+      const { game, announce } = setup({ grid: '3x2', selectBy: 'scan', scanMs: 1000 });
+      key('ArrowDown'); // arrows don't move the highlight while scanning
+      expect(screen.getByRole('img', { name: 'Face down, row 1, column 1' })).toHaveAttribute('aria-current', 'true');
+      act(() => vi.advanceTimersByTime(1000));
+      expect(announce).toHaveBeenLastCalledWith('Face down, row 1, column 2');
+      key('Enter');
+      expect(game.getCards()[1]!.state).toBe('up');
+      act(() => vi.advanceTimersByTime(2000));
+      expect(screen.getByRole('img', { name: 'Face down, row 2, column 1' })).toHaveAttribute('aria-current', 'true');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { InputManager } from '../core/InputManager';
+
+const pointer = (type: string, x: number, y: number, pointerId = 1) =>
+  Object.assign(new MouseEvent(type, { clientX: x, clientY: y, bubbles: true }), { pointerId, pointerType: 'touch' });
+
+const stage = () => {
+  const el = document.createElement('div');
+  el.getBoundingClientRect = () => ({ left: 50, top: 20, width: 400, height: 300 }) as DOMRect;
+  document.body.appendChild(el);
+  return el;
+};
+
+describe('pointer input', () => {
+  it('reports stage positions and presses in absolute mode', () => {
+    const input = new InputManager();
+    const el = stage();
+    const points: { x: number; y: number; phase: string }[] = [];
+    const trigger = vi.fn();
+    input.onPoint((p) => points.push(p));
+    input.onTrigger(trigger);
+    const detach = input.attachStage(el);
+
+    el.dispatchEvent(pointer('pointerenter', 60, 30));
+    el.dispatchEvent(pointer('pointermove', 150, 120));
+    expect(points).toEqual([
+      { x: 10, y: 10, phase: 'enter', pointerType: 'touch' },
+      { x: 100, y: 100, phase: 'move', pointerType: 'touch' }
+    ]);
+    el.dispatchEvent(pointer('pointerdown', 150, 120));
+    expect(trigger).toHaveBeenCalledTimes(1);
+
+    detach();
+    el.dispatchEvent(pointer('pointerdown', 150, 120));
+    expect(trigger).toHaveBeenCalledTimes(1);
+    el.remove();
+  });
+
+  it('drives a virtual joystick from where the finger lands', () => {
+    const input = new InputManager();
+    const el = stage();
+    const moves: { x: number; y: number }[] = [];
+    const joystick: unknown[] = [];
+    const trigger = vi.fn();
+    input.onMove((v, source) => source === 'pointer' && moves.push(v));
+    input.onJoystick((s) => joystick.push(s));
+    input.onTrigger(trigger);
+    const detach = input.attachStage(el, { mode: 'joystick', radius: 80 });
+
+    el.dispatchEvent(pointer('pointerdown', 150, 120));
+    el.dispatchEvent(pointer('pointermove', 150, 80));
+    expect(moves.at(-1)).toEqual({ x: 0, y: -0.5 });
+    el.dispatchEvent(pointer('pointermove', 350, 120));
+    expect(moves.at(-1)).toEqual({ x: 1, y: 0 });
+    expect(joystick.at(-1)).toEqual({ origin: { x: 100, y: 100 }, knob: { x: 180, y: 100 }, radius: 80 });
+    // a second finger is ignored
+    el.dispatchEvent(pointer('pointerup', 0, 0, 2));
+    el.dispatchEvent(pointer('pointerup', 350, 120));
+    expect(moves.at(-1)).toEqual({ x: 0, y: 0 });
+    expect(joystick.at(-1)).toBeNull();
+    expect(trigger).not.toHaveBeenCalled();
+
+    el.dispatchEvent(pointer('pointerdown', 150, 120));
+    el.dispatchEvent(pointer('pointerup', 152, 121));
+    expect(trigger).toHaveBeenCalledTimes(1);
+    detach();
+    el.remove();
+  });
+});
@@ -0,0 +1,77 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import App from '../App';
+import { ConfigManager } from '../core/ConfigManager';
+import { PresetLibrary } from '../core/PresetLibrary';
+import { entryLabel, parseSettings, exportSettings } from '../core/SettingsTransfer';
+import { SchemaSettings } from '../shared/components/settings/SchemaSettings';
+import type { GameConfigSchema, GameDefinition } from '../types/game';
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    size: { type: 'number', default: 60, min: 20, max: 100, label: 'Size' },
+    sound: { type: 'boolean', default: true, label: 'Sound' }
+  }
+};
+const game = {
+  id: 'test',
+  name: 'Test game',
+  configSchema: schema,
+  presets: [{ id: 'big', name: 'Big', config: { size: 100 } }]
+} as unknown as GameDefinition;
+
+describe('presets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    history.replaceState(null, '', location.pathname);
+  });
+
+  it('resolves built-in presets over defaults and keeps saved ones per profile', () => {
+    const config = new ConfigManager('sam');
+    const lib = new PresetLibrary(config, game);
+    const big = lib.find('big')!;
+    expect(lib.resolve(big)).toEqual({ size: 100, sound: true });
+    expect(lib.matches(big, { size: 100, sound: false })).toBe(false);
+
+    lib.save('Quiet', { size: 40, sound: false });
+    expect(new PresetLibrary(config, game).saved()).toEqual([]); // nothing stored without consent
+
+    config.setConsent(true);
+    const quiet = lib.save('quiet', { size: 50, sound: false });
+    const reloaded = new PresetLibrary(config, game);
+    expect(reloaded.list().map((p) => p.name)).toEqual(['Big', 'quiet']);
+    expect(reloaded.getSelected()?.id).toBe(quiet.id);
+    expect(reloaded.find('QUIET')?.config).toEqual({ size: 50, sound: false });
+    expect(entryLabel('presets:test', [game])).toBe('Test game presets');
+    expect(parseSettings(JSON.stringify(exportSettings(config, null)), [game]).entries['presets:test']).toEqual({
+      selected: quiet.id,
+      saved: [quiet]
+    });
+
+    reloaded.remove(quiet.id);
+    expect(new PresetLibrary(config, game).getSelected()).toBeNull();
+    config.setConsent(false);
+  });
+
+  it('applies a preset from the settings panel and flags later changes', () => {
+    const lib = new PresetLibrary(new ConfigManager(), game);
+    const onChange = vi.fn();
+    const { rerender } = render(
+      <SchemaSettings schema={schema} config={{ size: 60, sound: true }} onChange={onChange} presets={lib} />
+    );
+    fireEvent.change(screen.getByRole('combobox', { name: 'Preset' }), { target: { value: 'big' } });
+    expect(onChange).toHaveBeenCalledWith({ size: 100, sound: true });
+
+    rerender(<SchemaSettings schema={schema} config={{ size: 100, sound: true }} onChange={onChange} presets={lib} />);
+    expect(screen.queryByText(/Changed from/)).toBeNull();
+    rerender(<SchemaSettings schema={schema} config={{ size: 90, sound: true }} onChange={onChange} presets={lib} />);
+    expect(screen.getByText('Changed from “Big”')).toBeInTheDocument();
+  });
+
+  it('opens a game with the preset named in the link', () => {
+    history.replaceState(null, '', '#/game/target-collection?preset=Dwell%20practice');
+    render(<App />);
+    expect(screen.getByRole('combobox', { name: 'Preset' })).toHaveValue('dwell-practice');
+    expect(screen.getByRole('combobox', { name: 'Collect by' })).toHaveValue('dwell');
+  });
+});
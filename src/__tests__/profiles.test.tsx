@@ -0,0 +1,49 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import App from '../App';
+import { ConfigManager } from '../core/ConfigManager';
+import { ProfileManager } from '../core/ProfileManager';
+
+describe('learner profiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    new ConfigManager().setConsent(true);
+  });
+
+  it('scopes stored values per profile', () => {
+    const sam = new ProfileManager().create({ name: 'Sam', color: '#0033aa' });
+    new ConfigManager(sam.id).saveValue('theme', { highContrast: true });
+    expect(new ConfigManager(sam.id).loadValue('theme', { highContrast: false })).toEqual({ highContrast: true });
+    expect(new ConfigManager().loadValue('theme', { highContrast: false })).toEqual({ highContrast: false });
+
+    new ProfileManager().remove(sam.id);
+    expect(localStorage.getItem(`agp:profile:${sam.id}:theme`)).toBeNull();
+  });
+
+  it('keeps learners in memory until local data storage is accepted', () => {
+    new ConfigManager().setConsent(false);
+    const profiles = new ProfileManager();
+    const sam = profiles.create({ name: 'Sam', color: '#0033aa' });
+    profiles.update(sam.id, { name: 'Sammy' });
+    expect(profiles.list()).toMatchObject([{ name: 'Sammy' }]);
+    expect(localStorage.getItem('agp:profiles')).toBeNull();
+
+    new ConfigManager().setConsent(true);
+    profiles.persist();
+    expect(new ProfileManager().list()).toEqual(profiles.list());
+  });
+
+  it('shows the picker before the game list and applies the chosen profile', async () => {
+    const sam = new ProfileManager().create({ name: 'Sam', color: '#0033aa', icon: 'star' });
+    new ConfigManager(sam.id).saveValue('theme', { highContrast: true, reducedMotion: false });
+    const { container } = render(<App />);
+
+    expect(screen.getByRole('heading', { name: 'Who is playing?' })).toBeInTheDocument();
+    expect(screen.queryByRole('listbox', { name: 'Available games' })).toBeNull();
+    expect((await axe(container)).violations).toHaveLength(0);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sam' }));
+    expect(screen.getByRole('listbox', { name: 'Available games' })).toBeInTheDocument();
+    expect(document.documentElement.getAttribute('data-high-contrast')).toBe('on');
+  });
+});
@@ -0,0 +1,91 @@
+import { render, screen, within } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import type { GameDefinition, SessionMetrics } from '../types/game';
+import { ConfigManager } from '../core/ConfigManager';
+import { SessionHistory } from '../core/SessionHistory';
+import { ProgressView } from '../shared/components/progress/ProgressView';
+import { buildReportHtml, sessionsToCsv } from '../shared/utils/report';
+import { TREND_METRICS } from '../shared/utils/progress';
+import { exportSettings, parseSettings } from '../core/SettingsTransfer';
+
+const game = {
+  id: 'demo',
+  name: 'Demo',
+  description: '',
+  configSchema: {
+    version: 1,
+    properties: { size: { type: 'number', default: 60, label: 'Cursor size', unit: 'px' } }
+  },
+  component: () => null,
+  createInstance: () => {
+    throw new Error('unused');
+  }
+} as unknown as GameDefinition;
+
+const metrics: SessionMetrics = {
+  targetsCollected: 6,
+  meanTimeToTargetMs: 2500,
+  pathEfficiency: 0.8,
+  misses: 1,
+  dwellAbandons: 0,
+  pauses: 0
+};
+
+describe('ProgressView', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('charts sessions and highlights changed settings in the table', async () => {
+    const config = new ConfigManager();
+    config.setConsent(true);
+    const history = new SessionHistory(config);
+    history.add({ gameId: 'demo', startedAt: 0, endedAt: 60000, metrics, config: { size: 60 } });
+    history.add({ gameId: 'demo', startedAt: 86400000, endedAt: 86460000, metrics, config: { size: 80 } });
+
+    const { container } = render(<ProgressView config={config} games={[game]} learner="Sam" />);
+    expect(screen.getByRole('heading', { name: 'Progress for Sam' })).toBeInTheDocument();
+    expect(screen.getAllByRole('img')).toHaveLength(4);
+
+    const rows = within(screen.getByRole('table', { name: 'Sessions' })).getAllByRole('row');
+    expect(rows).toHaveLength(3);
+    expect(within(rows[2]!).getByText('Cursor size: 60 px → 80 px').tagName).toBe('MARK');
+    expect(within(rows[2]!).getByText('6 /min')).toBeInTheDocument();
+    expect((await axe(container)).violations).toHaveLength(0);
+  });
+
+  it('rates targets over active play time when the session records it', () => {
+    const rate = TREND_METRICS.find((m) => m.key === 'targetsPerMinute')!.value;
+    const record = { id: 'a', gameId: 'demo', startedAt: 0, endedAt: 120000, metrics, config: {} };
+    expect(rate(record)).toBe(3); // older record: wall-clock time
+    expect(rate({ ...record, metrics: { ...metrics, activeMs: 60000 } })).toBe(6);
+  });
+
+  it('shows an empty state without history', () => {
+    render(<ProgressView config={new ConfigManager()} games={[game]} learner="Guest" />);
+    expect(screen.getByText('No sessions recorded for Demo in this date range.')).toBeInTheDocument();
+    expect(screen.queryByRole('table')).toBeNull();
+  });
+
+  it('builds CSV and printable reports from stored sessions', () => {
+    const records = [
+      { id: 'a', gameId: 'demo', startedAt: 0, endedAt: 60000, metrics, config: { size: 60 } },
+      { id: 'b', gameId: 'demo', startedAt: 86400000, endedAt: 86460000, metrics, config: { size: 80 } }
+    ];
+    const csv = sessionsToCsv({ learner: '=Sam, "S"', records, games: [game] }).trim().split('\r\n');
+    expect(csv).toHaveLength(3);
+    expect(csv[0]).toContain('Targets per minute (/min)');
+    expect(csv[1]).toBe(`"'=Sam, ""S""",Demo,1970-01-01T00:00:00.000Z,60,6,6,2.5,80,0,1,0,Cursor size: 60 px`);
+
+    const html = buildReportHtml({ learner: '<Sam>', records, games: [game] });
+    expect(html).toContain('Progress report: &#60;Sam&#62;');
+    expect(html).toContain('Cursor size: 60 px → 80 px');
+    expect(html).not.toMatch(/<script|https?:/);
+
+    const crafted = { ...records[0]!, metrics: { ...metrics, targetsCollected: '<img src=x onerror=alert(1)>' as unknown as number } };
+    expect(buildReportHtml({ learner: 'Sam', records: [crafted], games: [game] })).not.toContain('<img');
+    const config = new ConfigManager();
+    config.setEntry('history:demo', [records[0], crafted]);
+    const parsed = parseSettings(JSON.stringify(exportSettings(config, null)), [game]);
+    expect(parsed.entries['history:demo']).toEqual([records[0]]);
+    expect(parsed.notes['history:demo']).toBe('1 damaged sessions skipped');
+  });
+});
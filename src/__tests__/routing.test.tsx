@@ -1,10 +1,78 @@
-import { render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import App from '../App';
+import { formatRoute, parseRoute } from '../core/Router';
+import { ConfigManager } from '../core/ConfigManager';
+import { ProfileManager } from '../core/ProfileManager';
 
 describe('routing/basic app smoke', () => {
+	beforeEach(() => {
+		localStorage.clear();
+		history.replaceState(null, '', location.pathname);
+	});
+
 	it('renders the main landmark', () => {
 		render(<App />);
 		expect(screen.getByRole('main')).toBeInTheDocument();
 	});
-});
 
+	it('parses and formats hash routes', () => {
+		expect(parseRoute('#/game/target-collection/settings?profile=sam&preset=slow')).toEqual({
+			view: 'game',
+			gameId: 'target-collection',
+			settings: true,
+			profile: 'sam',
+			preset: 'slow'
+		});
+		expect(parseRoute('#/progress')).toEqual({ view: 'progress' });
+		expect(parseRoute('#/nowhere')).toEqual({ view: 'home' });
+		expect(parseRoute('')).toEqual({ view: 'home' });
+		expect(formatRoute({ view: 'game', gameId: 'target-collection', profile: 'a b' })).toBe(
+			'#/game/target-collection?profile=a+b'
+		);
+		expect(formatRoute({ view: 'home' })).toBe('#/');
+	});
+
+	it('opens deep links, follows the back button and announces each view', async () => {
+		history.replaceState(null, '', '#/progress');
+		render(<App />);
+		expect(screen.getByRole('heading', { name: /Progress for/ })).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole('button', { name: /Controls/ }));
+		expect(location.hash).toBe('#/controls');
+		const heading = screen.getByRole('heading', { name: /Controls for/ });
+		expect(heading).toHaveFocus();
+		const live = document.querySelector('.sr-only[aria-live]');
+		await waitFor(() => expect(live).toHaveTextContent('Controls'));
+
+		act(() => {
+			history.replaceState(null, '', '#/progress');
+			window.dispatchEvent(new Event('popstate'));
+		});
+		expect(screen.getByRole('heading', { name: /Progress for/ })).toHaveFocus();
+	});
+
+	it('opens a game straight onto its settings', async () => {
+		history.replaceState(null, '', '#/game/target-collection/settings');
+		render(<App />);
+		const settings = await screen.findByRole('region', { name: 'Settings' });
+		await waitFor(() => expect(settings).toContainElement(document.activeElement as HTMLElement));
+	});
+
+	it('switches to the learner named in the link', () => {
+		new ConfigManager().setConsent(true);
+		new ProfileManager().create({ name: 'Sam', color: '#0033aa' });
+		history.replaceState(null, '', '#/game/target-collection?profile=sam');
+		render(<App />);
+		expect(screen.queryByRole('heading', { name: 'Who is playing?' })).toBeNull();
+		expect(screen.getByRole('button', { name: /Sam/ })).toHaveAttribute('aria-pressed', 'false');
+		expect(screen.getByRole('listbox', { name: 'Available games' })).toBeInTheDocument();
+	});
+
+	it('starts at the learner picker when profiles exist', () => {
+		new ConfigManager().setConsent(true);
+		new ProfileManager().create({ name: 'Sam', color: '#0033aa' });
+		render(<App />);
+		expect(screen.getByRole('heading', { name: 'Who is playing?' })).toBeInTheDocument();
+		expect(location.hash).toBe('#/profiles');
+	});
+});
@@ -0,0 +1,54 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { GameConfigSchema } from '../types/game';
+import { SchemaSettings } from '../shared/components/settings/SchemaSettings';
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    size: { type: 'number', default: 60, min: 20, max: 100, label: 'Size', group: 'Appearance', unit: 'px' },
+    mode: {
+      type: 'string',
+      default: 'instant',
+      label: 'Mode',
+      group: 'Interaction',
+      options: [
+        { value: 'instant', label: 'Instant' },
+        { value: 'dwell', label: 'Dwell' }
+      ]
+    },
+    dwellMs: {
+      type: 'number',
+      default: 600,
+      min: 100,
+      max: 1500,
+      label: 'Dwell time',
+      group: 'Interaction',
+      visibleWhen: (c) => c.mode === 'dwell'
+    },
+    sound: { type: 'boolean', default: true, label: 'Sound', group: 'Audio' }
+  }
+};
+
+describe('SchemaSettings', () => {
+  it('renders grouped controls from the schema', () => {
+    render(
+      <SchemaSettings schema={schema} config={{ size: 60, mode: 'instant', dwellMs: 600, sound: true }} onChange={() => {}} />
+    );
+    expect(screen.getByRole('group', { name: 'Appearance' })).toBeInTheDocument();
+    const slider = screen.getByRole('slider', { name: 'Size' });
+    expect(slider).toHaveAttribute('aria-valuetext', '60 px');
+    expect(slider.style.getPropertyValue('--_filled')).toBe('50%');
+    expect(screen.getByRole('checkbox', { name: 'Sound' })).toBeChecked();
+    expect(screen.queryByRole('slider', { name: 'Dwell time' })).toBeNull();
+  });
+
+  it('reports changes with the schema type', () => {
+    const onChange = vi.fn();
+    render(
+      <SchemaSettings schema={schema} config={{ size: 60, mode: 'dwell', dwellMs: 600, sound: true }} onChange={onChange} />
+    );
+    expect(screen.getByRole('slider', { name: 'Dwell time' })).toBeInTheDocument();
+    fireEvent.change(screen.getByRole('slider', { name: 'Size' }), { target: { value: '80' } });
+    expect(onChange).toHaveBeenLastCalledWith({ size: 80, mode: 'dwell', dwellMs: 600, sound: true });
+  });
+});
@@ -0,0 +1,56 @@
+import { SessionTracker } from '../core/SessionTracker';
+import { SessionHistory } from '../core/SessionHistory';
+import { ConfigManager } from '../core/ConfigManager';
+
+describe('SessionTracker', () => {
+  it('measures time-to-target without paused time and path efficiency', () => {
+    const t = new SessionTracker();
+    t.start(0);
+    t.targetShown({ x: 0, y: 0 }, { x: 30, y: 40 }, 0);
+    t.move({ x: 30, y: 0 });
+    t.pause(500);
+    t.move({ x: 100, y: 100 }); // ignored while paused
+    t.resume(1500);
+    t.move({ x: 30, y: 40 });
+    t.hit(2000);
+    t.miss();
+    t.dwellAbandon();
+
+    const m = t.snapshot();
+    expect(m.targetsCollected).toBe(1);
+    expect(m.meanTimeToTargetMs).toBe(1000);
+    expect(m.pathEfficiency).toBeCloseTo(50 / 70);
+    expect(m).toMatchObject({ misses: 1, dwellAbandons: 1, pauses: 1 });
+    expect(t.snapshot(3000).activeMs).toBe(2000);
+    t.pause(3500);
+    expect(t.snapshot(9000).activeMs).toBe(2500);
+  });
+
+  it('reports empty metrics before anything happens', () => {
+    expect(new SessionTracker().snapshot()).toEqual({
+      targetsCollected: 0,
+      meanTimeToTargetMs: null,
+      pathEfficiency: null,
+      misses: 0,
+      dwellAbandons: 0,
+      pauses: 0,
+      activeMs: 0
+    });
+  });
+});
+
+describe('SessionHistory', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('stores sessions per profile only with consent', () => {
+    const cfg = new ConfigManager('p1');
+    const history = new SessionHistory(cfg);
+    const record = { gameId: 'demo', startedAt: 1, endedAt: 2, metrics: new SessionTracker().snapshot(), config: {} };
+    expect(history.add(record)).toBeNull();
+
+    cfg.setConsent(true);
+    history.add(record);
+    expect(history.list('demo')).toHaveLength(1);
+    expect(new SessionHistory(new ConfigManager('p2')).listAll()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,140 @@
+import type { GameDefinition } from '../types/game';
+import { ConfigManager } from '../core/ConfigManager';
+import { applyImport, exportSettings, parseSettings, previewImport } from '../core/SettingsTransfer';
+import { KioskManager } from '../core/KioskManager';
+import type { Profile } from '../core/ProfileManager';
+import { SessionTracker } from '../core/SessionTracker';
+
+const game = {
+  id: 'demo',
+  name: 'Demo',
+  configSchema: {
+    version: 2,
+    properties: { size: { type: 'number', default: 60, min: 20, max: 100 } }
+  }
+} as unknown as GameDefinition;
+
+describe('settings export/import', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips a profile into another scope', () => {
+    const from = new ConfigManager('a');
+    from.save('demo', game.configSchema, { size: 80 });
+    from.saveValue('theme', { highContrast: true, reducedMotion: false });
+    const text = JSON.stringify(exportSettings(from, { id: 'a', name: 'Sam', color: '#000000' }));
+
+    const parsed = parseSettings(text, [game]);
+    expect(parsed.profile?.name).toBe('Sam');
+    const to = new ConfigManager('b');
+    to.saveValue('calibration', { deadZone: 0.3, responseCurve: 1 });
+    expect(previewImport(parsed, to, 'replace', [game]).map((c) => [c.label, c.kind])).toEqual([
+      ['Demo settings', 'added'],
+      ['Theme', 'added'],
+      ['Input calibration', 'removed']
+    ]);
+
+    applyImport(parsed, to, 'replace');
+    expect(to.load('demo', game.configSchema).config).toEqual({ size: 80 });
+    expect(to.entries()).not.toHaveProperty('calibration');
+  });
+
+  it('rejects edited files and repairs invalid values', () => {
+    const cfg = new ConfigManager('a');
+    const doc = exportSettings(cfg, null);
+    const tampered = { ...doc, entries: { 'settings:demo:2': { size: 500 } } };
+    expect(() => parseSettings(JSON.stringify(tampered), [game])).toThrow(/damaged/);
+    expect(() => parseSettings('nope', [game])).toThrow(/not a settings export/);
+
+    cfg.setEntry('settings:demo:2', { size: 500 });
+    cfg.setEntry('settings:other:1', { x: 1 });
+    const parsed = parseSettings(JSON.stringify(exportSettings(cfg, null)), [game]);
+    expect(parsed.entries['settings:demo:2']).toEqual({ size: 100 });
+    expect(parsed.notes['settings:demo:2']).toMatch(/Repaired: size/);
+    expect(parsed.entries).not.toHaveProperty('settings:other:1');
+
+    cfg.setEntry('mystery', { anything: true });
+    const unknown = parseSettings(JSON.stringify(exportSettings(cfg, null)), [game]);
+    expect(unknown.notes.mystery).toBe('Unknown, skipped');
+    const to = new ConfigManager('b');
+    applyImport(unknown, to, 'merge');
+    expect(to.getEntry('mystery')).toBeUndefined();
+  });
+
+  it('merges history by session id and skips sessions without one', () => {
+    const metrics = new SessionTracker().snapshot();
+    const session = (id: string | undefined, startedAt: number) => ({
+      id,
+      gameId: 'demo',
+      startedAt,
+      endedAt: startedAt + 1,
+      metrics,
+      config: {}
+    });
+    const from = new ConfigManager('a');
+    from.setEntry('history:demo', [session('x', 1), session(undefined, 2), session(undefined, 3), session('y', 4)]);
+    const parsed = parseSettings(JSON.stringify(exportSettings(from, null)), [game]);
+    expect(parsed.notes['history:demo']).toBe('2 damaged sessions skipped');
+
+    const to = new ConfigManager('b');
+    to.setEntry('history:demo', [session('y', 4), session('z', 5)]);
+    applyImport(parsed, to, 'merge');
+    expect((to.getEntry('history:demo') as { id: string }[]).map((r) => r.id)).toEqual(['x', 'y', 'z']);
+  });
+
+  it('only brings in a learner with a name, and their colour and icon from the picker', () => {
+    const cfg = new ConfigManager('a');
+    const fileFrom = (profile: unknown) =>
+      parseSettings(JSON.stringify(exportSettings(cfg, { ...(profile as Profile), id: 'a' })), [game]).profile;
+    expect(fileFrom({ name: ' Sam ', color: '#d10f0f', icon: 'moon' })).toEqual({
+      name: 'Sam',
+      color: '#d10f0f',
+      icon: 'moon'
+    });
+    expect(fileFrom({ name: 'Sam', color: 'url(x)', icon: 'skull' })).toEqual({ name: 'Sam', color: '#0033aa' });
+    expect(fileFrom({ name: { first: 'Sam' }, color: '#d10f0f' })).toBeNull();
+    expect(fileFrom({ name: '  ', color: '#d10f0f' })).toBeNull();
+  });
+
+  it('upgrades older game settings on import so they take the place of the current ones', () => {
+    const migrating = {
+      ...game,
+      migrations: [{ from: 1, to: 2, migrate: (c: Record<string, unknown>) => ({ size: c.width }) }]
+    } as GameDefinition;
+    const from = new ConfigManager('a');
+    from.setEntry('settings:demo:1', { width: 90 });
+    const parsed = parseSettings(JSON.stringify(exportSettings(from, null)), [migrating]);
+    expect(parsed.entries).toEqual({ 'settings:demo:2': { size: 90 } });
+    expect(parsed.notes['settings:demo:2']).toBe('Upgraded from version 1');
+
+    const to = new ConfigManager('b');
+    to.save('demo', game.configSchema, { size: 40 });
+    applyImport(parsed, to, 'merge');
+    expect(to.load('demo', game.configSchema).config).toEqual({ size: 90 });
+
+    // a file that also has current settings keeps those
+    from.setEntry('settings:demo:2', { size: 30 });
+    const both = parseSettings(JSON.stringify(exportSettings(from, null)), [migrating]);
+    expect(both.entries).toEqual({ 'settings:demo:2': { size: 30 } });
+    expect(both.notes['settings:demo:1']).toBe('Newer settings in this file used instead');
+  });
+
+  it('leaves supervised mode alone when guest settings are exported and imported', () => {
+    const kiosk = new KioskManager();
+    kiosk.setPin('2468');
+    kiosk.lock('demo');
+    const stored = localStorage.getItem('agp:kiosk');
+    const guest = new ConfigManager();
+    guest.saveValue('theme', { highContrast: true });
+    const doc = exportSettings(guest, null);
+    expect(Object.keys(doc.entries)).toEqual(['theme']);
+
+    applyImport(parseSettings(JSON.stringify(doc), [game]), guest, 'replace');
+    expect(localStorage.getItem('agp:kiosk')).toBe(stored);
+
+    // what a crafted file's entries would be written with
+    guest.setEntry('kiosk', { locked: false, gameId: null, pin: '1' });
+    guest.removeEntry('kiosk');
+    expect(localStorage.getItem('agp:kiosk')).toBe(stored);
+    expect(kiosk.isLocked()).toBe(true);
+  });
+});
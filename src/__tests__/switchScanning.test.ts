@@ -0,0 +1,55 @@
+import { InputManager } from '../core/InputManager';
+
+const press = (key: string, type: 'keydown' | 'keyup') => window.dispatchEvent(new KeyboardEvent(type, { key }));
+
+describe('switch scanning', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('cycles directions with one switch, moves on press and triggers on hold', () => {
+    const input = new InputManager();
+    const moves: { x: number; y: number }[] = [];
+    const trigger = vi.fn();
+    input.onMove((v, source) => source === 'switch' && moves.push(v));
+    input.onTrigger(trigger);
+    input.setScanning({ mode: 'one-switch', rateMs: 1000 });
+
+    vi.advanceTimersByTime(1000);
+    expect(input.getScanState().direction.label).toBe('Right');
+
+    press(' ', 'keydown');
+    press(' ', 'keyup');
+    expect(moves.at(-1)).toEqual({ x: 1, y: 0 });
+    vi.advanceTimersByTime(3000);
+    expect(input.getScanState()).toMatchObject({ index: 1, moving: true });
+
+    press(' ', 'keydown');
+    press(' ', 'keyup');
+    expect(moves.at(-1)).toEqual({ x: 0, y: 0 });
+
+    press(' ', 'keydown');
+    vi.advanceTimersByTime(800);
+    press(' ', 'keyup');
+    expect(trigger).toHaveBeenCalledTimes(1);
+    expect(input.getScanState().moving).toBe(false);
+    input.setScanning({ mode: 'off' });
+  });
+
+  it('steps with the first switch and selects with the second', () => {
+    const input = new InputManager();
+    const trigger = vi.fn();
+    input.onTrigger(trigger);
+    input.setScanning({ mode: 'two-switch', directions: 8 });
+
+    press(' ', 'keydown');
+    press(' ', 'keyup');
+    vi.advanceTimersByTime(5000);
+    expect(input.getScanState().direction.label).toBe('Up right');
+
+    press('Enter', 'keydown');
+    press('Enter', 'keyup');
+    expect(input.getScanState().moving).toBe(true);
+    expect(trigger).not.toHaveBeenCalled();
+    input.setScanning({ mode: 'off' });
+  });
+});
@@ -0,0 +1,63 @@
+import { act, renderHook } from '@testing-library/react';
+import { ConfigManager } from '../core/ConfigManager';
+import { useGameConfig } from '../shared/hooks/useGameConfig';
+import type { GameConfigSchema } from '../types/game';
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: { size: { type: 'number', default: 60, min: 20, max: 100 } }
+};
+const stored = () => localStorage.getItem('agp:settings:demo:1');
+
+describe('useGameConfig', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  const setup = (consent: boolean) => {
+    const config = new ConfigManager();
+    config.setConsent(consent);
+    return renderHook(() => useGameConfig<{ size: number }>(config, 'demo', schema));
+  };
+
+  it('saves once edits have settled', () => {
+    const { result } = setup(true);
+    act(() => result.current[1]({ size: 70 }));
+    act(() => result.current[1]({ size: 80 }));
+    expect(result.current[0]).toEqual({ size: 80 });
+    act(() => vi.advanceTimersByTime(399));
+    expect(stored()).toBeNull();
+    act(() => vi.advanceTimersByTime(1));
+    expect(JSON.parse(stored()!)).toEqual({ size: 80 });
+  });
+
+  it('saves a pending edit when unmounted', () => {
+    const { result, unmount } = setup(true);
+    act(() => result.current[1]({ size: 70 }));
+    unmount();
+    expect(JSON.parse(stored()!)).toEqual({ size: 70 });
+  });
+
+  it('keeps edits in memory without consent', () => {
+    const { result, unmount } = setup(false);
+    act(() => result.current[1]({ size: 70 }));
+    act(() => vi.advanceTimersByTime(400));
+    unmount();
+    expect(result.current[0]).toEqual({ size: 70 });
+    expect(stored()).toBeNull();
+  });
+
+  it('resets to the defaults and forgets the saved settings', () => {
+    const { result } = setup(true);
+    act(() => result.current[1]({ size: 70 }));
+    act(() => vi.advanceTimersByTime(400));
+    act(() => result.current[1]({ size: 90 }));
+    act(() => result.current[2]());
+    expect(result.current[0]).toEqual({ size: 60 });
+    expect(stored()).toBeNull();
+    act(() => vi.advanceTimersByTime(400)); // the pending edit is dropped too
+    expect(stored()).toBeNull();
+  });
+});
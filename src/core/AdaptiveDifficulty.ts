@@ -0,0 +1,159 @@
+import type { ConfigProperty, GameConfig, GameConfigSchema } from '../types/game';
+
+// A finished attempt; games without a time goal can say whether it succeeded
+export type Trial = { timeMs: number; misses: number; overshoots: number; dwellAbandons: number; success?: boolean };
+
+export type Adjustment = { at: number; property: string; from: number; to: number; successRate: number };
+
+export type AdaptiveSettings = {
+  enabled: boolean;
+  band: [number, number]; // success rate to keep the learner within, 0..1
+  goalMs: number; // quicker than this, with no misses, overshoots or abandons, is a success
+  bounds: Record<string, [number, number]>; // therapist limits per property; schema min/max otherwise
+};
+
+export const DEFAULT_ADAPTIVE: AdaptiveSettings = { enabled: false, band: [0.6, 0.85], goalMs: 5000, bounds: {} };
+
+export const ADAPT_WINDOW = 6; // trials between decisions
+const STEPS_PER_RANGE = 10; // each decision moves a property a tenth of its range
+const LOG_LIMIT = 50;
+
+type Adaptable = [string, ConfigProperty & { min: number; max: number }];
+
+export function adaptableProperties(schema: GameConfigSchema): Adaptable[] {
+  return Object.entries(schema.properties).filter(
+    (e): e is Adaptable => !!e[1].adapt && e[1].type === 'number' && e[1].min !== undefined && e[1].max !== undefined
+  );
+}
+
+const rate = (v: unknown, fallback: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : fallback;
+
+export function sanitizeAdaptive(raw: unknown, schema?: GameConfigSchema): AdaptiveSettings {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<AdaptiveSettings>;
+  const band = Array.isArray(r.band) ? r.band : DEFAULT_ADAPTIVE.band;
+  const low = rate(band[0], DEFAULT_ADAPTIVE.band[0]);
+  const high = rate(band[1], DEFAULT_ADAPTIVE.band[1]);
+  const bounds: Record<string, [number, number]> = {};
+  const props = schema ? adaptableProperties(schema) : [];
+  for (const [name, b] of Object.entries(r.bounds && typeof r.bounds === 'object' ? r.bounds : {})) {
+    if (!Array.isArray(b) || !b.every((n) => typeof n === 'number' && Number.isFinite(n))) continue;
+    const prop = props.find(([n]) => n === name)?.[1];
+    if (schema && !prop) continue;
+    const lo = prop ? Math.max(prop.min, Math.min(b[0], b[1])) : Math.min(b[0], b[1]);
+    const hi = prop ? Math.min(prop.max, Math.max(b[0], b[1])) : Math.max(b[0], b[1]);
+    bounds[name] = [lo, hi];
+  }
+  return {
+    enabled: r.enabled === true,
+    band: [Math.min(low, high), Math.max(low, high)],
+    goalMs:
+      typeof r.goalMs === 'number' && Number.isFinite(r.goalMs)
+        ? Math.min(60000, Math.max(500, r.goalMs))
+        : DEFAULT_ADAPTIVE.goalMs,
+    bounds
+  };
+}
+
+// Stored logs may be damaged or hand-edited; the settings panel reads every field
+export function sanitizeLog(raw: unknown): Adjustment[] {
+  if (!Array.isArray(raw)) return [];
+  const finite = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  return raw
+    .filter(
+      (a): a is Adjustment =>
+        !!a &&
+        typeof a === 'object' &&
+        typeof a.property === 'string' &&
+        [a.at, a.from, a.to, a.successRate].every(finite)
+    )
+    .map(({ at, property, from, to, successRate }) => ({ at, property, from, to, successRate }))
+    .slice(-LOG_LIMIT);
+}
+
+/**
+ * Opt-in difficulty tuning shared by all games. Games publish finished trials;
+ * every few trials the success rate is compared with the therapist's band and
+ * each property the schema marks with `adapt` moves one step easier or harder,
+ * never past the therapist's bounds. Every change is kept in the log.
+ */
+export class AdaptiveDifficulty {
+  private settings: AdaptiveSettings;
+  private trials: Trial[] = [];
+  private log: Adjustment[];
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private schema: GameConfigSchema,
+    settings: Partial<AdaptiveSettings> = DEFAULT_ADAPTIVE,
+    log: Adjustment[] = []
+  ) {
+    this.settings = sanitizeAdaptive({ ...DEFAULT_ADAPTIVE, ...settings }, schema);
+    this.log = log.slice(-LOG_LIMIT);
+  }
+
+  getSettings(): AdaptiveSettings {
+    return { ...this.settings, bounds: { ...this.settings.bounds } };
+  }
+  setSettings(patch: Partial<AdaptiveSettings>) {
+    this.settings = sanitizeAdaptive({ ...this.settings, ...patch }, this.schema);
+    this.trials = [];
+    this.changed();
+  }
+  getLog(): Adjustment[] {
+    return [...this.log];
+  }
+  // Settings or log changed
+  onChange(cb: () => void) {
+    this.listeners.add(cb);
+    return () => this.listeners.delete(cb);
+  }
+
+  properties() {
+    return adaptableProperties(this.schema);
+  }
+
+  boundsFor(name: string): [number, number] {
+    const prop = this.schema.properties[name];
+    return this.settings.bounds[name] ?? [prop?.min ?? 0, prop?.max ?? 0];
+  }
+
+  isSuccess(t: Trial) {
+    const clean = t.misses === 0 && t.overshoots === 0 && t.dwellAbandons === 0;
+    return t.success ?? (clean && t.timeMs <= this.settings.goalMs);
+  }
+
+  // Returns the nudged config once enough trials put the learner outside the band
+  observe(trial: Trial, config: GameConfig, now = Date.now()): { config: GameConfig; adjustments: Adjustment[] } | null {
+    if (!this.settings.enabled) return null;
+    this.trials.push(trial);
+    if (this.trials.length < ADAPT_WINDOW) return null;
+    const successRate = this.trials.filter((t) => this.isSuccess(t)).length / this.trials.length;
+    this.trials = [];
+    const [low, high] = this.settings.band;
+    if (successRate >= low && successRate <= high) return null;
+    const easier = successRate < low;
+
+    const next = { ...config };
+    const adjustments: Adjustment[] = [];
+    for (const [name, prop] of this.properties()) {
+      const from = Number(config[name] ?? prop.default);
+      const [min, max] = this.boundsFor(name);
+      const stepSize = prop.step ?? 1;
+      const delta = Math.max(stepSize, Math.round((prop.max - prop.min) / STEPS_PER_RANGE / stepSize) * stepSize);
+      const up = easier === (prop.adapt!.easier === 'higher');
+      const to = Math.min(max, Math.max(min, from + (up ? delta : -delta)));
+      if (to === from) continue;
+      next[name] = to;
+      adjustments.push({ at: now, property: name, from, to, successRate });
+    }
+    if (!adjustments.length) return null;
+    this.log = [...this.log, ...adjustments].slice(-LOG_LIMIT);
+    this.changed();
+    return { config: next, adjustments };
+  }
+
+  private changed() {
+    for (const l of this.listeners) l();
+  }
+}
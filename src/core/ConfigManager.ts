@@ -1,12 +1,98 @@
-type Schema = {
-  version: number;
-  defaults: Record<string, unknown>;
+import type { ConfigMigration, ConfigProperty, ConfigValue, GameConfig, GameConfigSchema } from '../types/game';
+
+export type ValidationResult<T extends GameConfig> = {
+  config: T;
+  // schema keys whose stored value was missing (when required), invalid or out of range
+  repaired: string[];
+};
+
+export type LoadResult<T extends GameConfig> = ValidationResult<T> & {
+  // set when the config was carried forward from an older schema version
+  migratedFrom?: number;
 };
 
+export function defaultsFor<T extends GameConfig>(schema: GameConfigSchema): T {
+  const out: GameConfig = {};
+  for (const [name, prop] of Object.entries(schema.properties)) out[name] = prop.default;
+  return out as T;
+}
+
+function coerce(prop: ConfigProperty, value: unknown): ConfigValue | undefined {
+  switch (prop.type) {
+    case 'number': {
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) return undefined;
+      return Math.max(prop.min ?? -Infinity, Math.min(prop.max ?? Infinity, n));
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    case 'string':
+      return typeof value === 'string' ? value : undefined;
+  }
+}
+
+/**
+ * Applies the chain of migrations leading from `from` to `to`. If a step is
+ * missing the stored config is returned as it was and left to validation,
+ * rather than running later steps on data they were not written for.
+ */
+export function migrateConfig(config: GameConfig, from: number, to: number, migrations: ConfigMigration[]) {
+  let version = from;
+  let out = config;
+  while (version < to) {
+    const step = migrations.find((m) => m.from === version && m.to > version && m.to <= to);
+    if (!step) return config;
+    out = step.migrate(out);
+    version = step.to;
+  }
+  return out;
+}
+
+/**
+ * Coerces untrusted data (e.g. parsed localStorage JSON) into a config that satisfies
+ * the schema. Unknown keys are dropped; anything unusable falls back to its default.
+ */
+export function validateConfig<T extends GameConfig>(schema: GameConfigSchema, raw: unknown): ValidationResult<T> {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const required = new Set(schema.required ?? []);
+  const out: GameConfig = {};
+  const repaired: string[] = [];
+
+  for (const [name, prop] of Object.entries(schema.properties)) {
+    if (!(name in input)) {
+      out[name] = prop.default;
+      if (required.has(name)) repaired.push(name);
+      continue;
+    }
+    let value = coerce(prop, input[name]);
+    if (value !== undefined && prop.options && !prop.options.some((o) => o.value === value)) {
+      value = undefined;
+    }
+    out[name] = value ?? prop.default;
+    if (out[name] !== input[name]) repaired.push(name);
+  }
+  return { config: out as T, repaired };
+}
+
+// Device-wide records under `agp:`; never part of the guest scope's settings
+export const DEVICE_KEYS = ['consent', 'profiles', 'kiosk'];
+
+/**
+ * Settings storage for one profile. Consent is device-wide; everything else lives
+ * under the profile's scope (the guest scope keeps the original `agp:` keys).
+ */
 export class ConfigManager {
-  private key = 'agp:settings';
+  private scope: string;
+  private key: string;
   private consentKey = 'agp:consent';
 
+  constructor(readonly profileId: string | null = null) {
+    this.scope = profileId ? `agp:profile:${profileId}` : 'agp';
+    this.key = `${this.scope}:settings`;
+  }
+
   getConsent(): boolean {
     try {
       return localStorage.getItem(this.consentKey) === 'true';
@@ -20,22 +106,117 @@ export class ConfigManager {
     } catch {}
   }
 
-  load<T extends Record<string, unknown>>(ns: string, schema: Schema): T {
+  load<T extends GameConfig>(
+    ns: string,
+    schema: GameConfigSchema,
+    migrations: ConfigMigration[] = []
+  ): LoadResult<T> {
     const key = `${this.key}:${ns}:${schema.version}`;
     try {
       const raw = localStorage.getItem(key);
-      if (!raw) return schema.defaults as T;
-      const parsed = JSON.parse(raw) as T;
-      return { ...(schema.defaults as T), ...parsed };
+      if (raw) return validateConfig<T>(schema, JSON.parse(raw));
+
+      const older = this.storedVersions(ns).filter((v) => v < schema.version);
+      if (!older.length) return { config: defaultsFor<T>(schema), repaired: [] };
+      const from = Math.max(...older);
+      const stale = JSON.parse(localStorage.getItem(`${this.key}:${ns}:${from}`) ?? '{}');
+      const result = validateConfig<T>(schema, migrateConfig(stale, from, schema.version, migrations));
+      if (this.getConsent()) {
+        this.save(ns, schema, result.config);
+        for (const v of older) localStorage.removeItem(`${this.key}:${ns}:${v}`);
+      }
+      return { ...result, migratedFrom: from };
     } catch {
-      return schema.defaults as T;
+      return { config: defaultsFor<T>(schema), repaired: [] };
     }
   }
 
-  save<T extends Record<string, unknown>>(ns: string, schema: Schema, data: T) {
+  private storedVersions(ns: string): number[] {
+    const prefix = `${this.key}:${ns}:`;
+    const versions: number[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      if (!k?.startsWith(prefix)) continue;
+      const rest = k.slice(prefix.length);
+      if (/^\d+$/.test(rest)) versions.push(Number(rest));
+    }
+    return versions;
+  }
+
+  save<T extends GameConfig>(ns: string, schema: GameConfigSchema, data: T) {
     const key = `${this.key}:${ns}:${schema.version}`;
     try {
       localStorage.setItem(key, JSON.stringify(data));
     } catch {}
   }
+
+  // Non-schema values such as theme and input calibration
+  loadValue<T extends object>(name: string, fallback: T): T {
+    try {
+      const raw = localStorage.getItem(`${this.scope}:${name}`);
+      const parsed = raw ? JSON.parse(raw) : null;
+      return parsed && typeof parsed === 'object' ? { ...fallback, ...parsed } : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  saveValue<T extends object>(name: string, value: T) {
+    try {
+      localStorage.setItem(`${this.scope}:${name}`, JSON.stringify(value));
+    } catch {}
+  }
+
+  // Everything stored in this scope, keyed relative to it (e.g. `settings:<ns>:<version>`, `theme`)
+  entries(): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    const prefix = `${this.scope}:`;
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const k = localStorage.key(i);
+        if (!k?.startsWith(prefix)) continue;
+        const name = k.slice(prefix.length);
+        if (!this.owns(name)) continue;
+        try {
+          out[name] = JSON.parse(localStorage.getItem(k) ?? 'null');
+        } catch {}
+      }
+    } catch {}
+    return out;
+  }
+
+  getEntry(name: string): unknown {
+    try {
+      const raw = localStorage.getItem(`${this.scope}:${name}`);
+      return raw ? JSON.parse(raw) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  setEntry(name: string, value: unknown) {
+    if (!this.owns(name)) return;
+    try {
+      localStorage.setItem(`${this.scope}:${name}`, JSON.stringify(value));
+    } catch {}
+  }
+
+  removeEntry(name: string) {
+    if (!this.owns(name)) return;
+    try {
+      localStorage.removeItem(`${this.scope}:${name}`);
+    } catch {}
+  }
+
+  // the guest scope shares the `agp:` prefix with device-wide and profile keys
+  private owns(name: string) {
+    return !!this.profileId || (!DEVICE_KEYS.includes(name) && !name.startsWith('profile:'));
+  }
+
+  clear(ns: string, schema: GameConfigSchema) {
+    const key = `${this.key}:${ns}:${schema.version}`;
+    try {
+      localStorage.removeItem(key);
+    } catch {}
+  }
 }
@@ -0,0 +1,187 @@
+export type DwellSettings = {
+  enabled: boolean;
+  dwellMs: number; // hover this long to activate
+  cooldownMs: number; // nothing starts filling again until this has passed
+};
+export type DwellProgress = { x: number; y: number; progress: number } | null; // viewport pixels, 0..1
+// Controls a click can't change; dwelling on one offers on-screen buttons for it instead
+export type DwellAdjustable = HTMLSelectElement | HTMLInputElement;
+
+export const DEFAULT_DWELL: DwellSettings = { enabled: false, dwellMs: 1200, cooldownMs: 1000 };
+
+const TARGETS =
+  'button, a[href], input, select, textarea, summary, label, [role="button"], [role="option"], [role="tab"], [role="checkbox"]';
+
+const num = (v: unknown, fallback: number, min: number, max: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback;
+
+export function sanitizeDwell(raw: unknown): DwellSettings {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<DwellSettings>;
+  return {
+    enabled: typeof r.enabled === 'boolean' ? r.enabled : DEFAULT_DWELL.enabled,
+    dwellMs: num(r.dwellMs, DEFAULT_DWELL.dwellMs, 300, 5000),
+    cooldownMs: num(r.cooldownMs, DEFAULT_DWELL.cooldownMs, 0, 5000)
+  };
+}
+
+function dwellTarget(t: EventTarget | null): HTMLElement | null {
+  const el = t instanceof Element ? t.closest<HTMLElement>(TARGETS) : null;
+  if (!el || (el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') return null;
+  return el;
+}
+
+export function adjustable(el: HTMLElement): el is DwellAdjustable {
+  return el instanceof HTMLSelectElement || (el instanceof HTMLInputElement && el.type === 'range');
+}
+
+// Set through the native setter so React's onChange sees the change
+function setFieldValue(el: DwellAdjustable, value: string) {
+  const proto = el instanceof HTMLSelectElement ? HTMLSelectElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(proto, 'value')?.set?.call(el, value);
+  el.dispatchEvent(new Event(el instanceof HTMLSelectElement ? 'change' : 'input', { bubbles: true }));
+}
+
+/** Moves a range input one step down (-1) or up (1), within its limits. */
+export function stepRange(el: HTMLInputElement, direction: -1 | 1) {
+  const min = el.min === '' ? 0 : Number(el.min);
+  const max = el.max === '' ? 100 : Number(el.max);
+  const step = Number(el.step) > 0 ? Number(el.step) : 1;
+  const decimals = (String(step).split('.')[1] ?? '').length;
+  const next = Math.min(max, Math.max(min, Number(el.value) + direction * step));
+  setFieldValue(el, next.toFixed(decimals));
+}
+
+export function chooseOption(el: HTMLSelectElement, value: string) {
+  setFieldValue(el, value);
+}
+
+// Fields that need typing get focus; everything else is clicked
+function activate(el: HTMLElement) {
+  el.focus({ preventScroll: true });
+  const typed = el instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'reset'].includes(el.type);
+  if (typed || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) return;
+  el.click();
+}
+
+/**
+ * Clicks whatever interactive control the pointer rests on, for eye-gaze and
+ * head-pointer users who can move a mouse but not press its button.
+ */
+export class DwellManager {
+  private settings = { ...DEFAULT_DWELL };
+  private settingsListeners = new Set<(s: DwellSettings) => void>();
+  private progressListeners = new Set<(p: DwellProgress) => void>();
+  private adjustListeners = new Set<(el: DwellAdjustable | null) => void>();
+  private target: HTMLElement | null = null;
+  private spent: HTMLElement | null = null; // just activated; the pointer must leave it first
+  private startedAt: number | null = null;
+  private coolUntil = 0;
+  private point = { x: 0, y: 0 };
+  private raf: number | null = null;
+
+  setSettings(settings: Partial<DwellSettings>) {
+    this.settings = sanitizeDwell({ ...this.settings, ...settings });
+    if (!this.settings.enabled) {
+      this.cancel();
+      this.emitAdjust(null);
+    }
+    for (const l of this.settingsListeners) l(this.getSettings());
+  }
+  getSettings(): DwellSettings {
+    return { ...this.settings };
+  }
+  onSettings(cb: (s: DwellSettings) => void) {
+    this.settingsListeners.add(cb);
+    return () => this.settingsListeners.delete(cb);
+  }
+
+  // Ring position and fill while a control is being dwelt on
+  onProgress(cb: (p: DwellProgress) => void) {
+    this.progressListeners.add(cb);
+    return () => this.progressListeners.delete(cb);
+  }
+
+  // The slider or drop-down last dwelt on, for its on-screen buttons; null when there is none
+  onAdjust(cb: (el: DwellAdjustable | null) => void) {
+    this.adjustListeners.add(cb);
+    return () => this.adjustListeners.delete(cb);
+  }
+
+  attach(root: Document = document) {
+    const move = (e: PointerEvent) => {
+      // touch has no hover; a tap already clicks
+      if (e.pointerType === 'touch') return;
+      this.point = { x: e.clientX, y: e.clientY };
+      this.hover(e.target);
+    };
+    const out = (e: PointerEvent) => {
+      if (!e.relatedTarget) this.hover(null);
+    };
+    root.addEventListener('pointermove', move);
+    root.addEventListener('pointerout', out);
+    return () => {
+      root.removeEventListener('pointermove', move);
+      root.removeEventListener('pointerout', out);
+      this.cancel();
+    };
+  }
+
+  private hover(t: EventTarget | null) {
+    if (!this.settings.enabled) return;
+    const el = dwellTarget(t);
+    if (el !== this.spent) this.spent = null;
+    if (el && el === this.target) return;
+    this.cancel();
+    if (!el || el === this.spent) return;
+    this.target = el;
+    this.raf = requestAnimationFrame(this.tick);
+  }
+
+  private tick = (now: number) => {
+    const el = this.target;
+    if (!el) return;
+    if (!el.isConnected) return this.cancel();
+    if (now < this.coolUntil) {
+      this.raf = requestAnimationFrame(this.tick);
+      return;
+    }
+    this.startedAt ??= now;
+    const progress = Math.min(1, (now - this.startedAt) / this.settings.dwellMs);
+    this.emitProgress({ ...this.point, progress });
+    if (progress < 1) {
+      this.raf = requestAnimationFrame(this.tick);
+      return;
+    }
+    this.cancel();
+    this.coolUntil = now + this.settings.cooldownMs;
+    if (adjustable(el)) {
+      el.focus({ preventScroll: true });
+      this.emitAdjust(el);
+    } else {
+      activate(el);
+    }
+    // step buttons keep going while the pointer rests on them
+    if (el.hasAttribute('data-dwell-repeat') && el.isConnected) {
+      this.target = el;
+      this.raf = requestAnimationFrame(this.tick);
+    } else {
+      this.spent = el;
+    }
+  };
+
+  private cancel() {
+    if (this.raf) cancelAnimationFrame(this.raf);
+    this.raf = null;
+    if (this.target && this.startedAt != null) this.emitProgress(null);
+    this.target = null;
+    this.startedAt = null;
+  }
+
+  private emitProgress(p: DwellProgress) {
+    for (const l of this.progressListeners) l(p);
+  }
+
+  private emitAdjust(el: DwellAdjustable | null) {
+    for (const l of this.adjustListeners) l(el);
+  }
+}
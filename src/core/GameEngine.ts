@@ -0,0 +1,108 @@
+import type { GameState } from '../types/game';
+import { GameEventBus } from './GameEvents';
+
+const STEP_MS = 1000 / 60;
+const MAX_FRAME_MS = 250; // after a stall, catch up at most this much
+
+/**
+ * Shared loop and lifecycle for games. Fixed-step `update` handlers run only
+ * while the game is playing, so physics is the same at any frame rate;
+ * `frame` handlers run every animation frame, paused or not, for drawing and
+ * anything the learner can do before pressing Play. Lifecycle and score
+ * changes are published on `events`, the instance's event bus.
+ */
+export class GameEngine {
+  private state: GameState = { started: false, paused: false, completed: false, score: 0, timestamp: 0 };
+  private updateListeners = new Set<(dtMs: number) => void>();
+  private frameListeners = new Set<(dtMs: number) => void>();
+  readonly events = new GameEventBus();
+  private raf: number | null = null;
+  private last: number | null = null;
+  private carry = 0;
+
+  constructor(private stepMs = STEP_MS) {}
+
+  // Frame loop; games call these from IGame.initialize and cleanup
+  run() {
+    if (this.raf != null) return;
+    this.last = null;
+    this.raf = requestAnimationFrame(this.frame);
+  }
+  stop() {
+    if (this.raf != null) cancelAnimationFrame(this.raf);
+    this.raf = null;
+  }
+
+  start() {
+    this.state = { started: true, paused: false, completed: false, score: 0, timestamp: 0 };
+    this.carry = 0;
+    this.events.emit('start', { state: this.getState() });
+  }
+  pause() {
+    if (!this.isPlaying()) return;
+    this.state = { ...this.state, paused: true };
+    this.events.emit('pause', { state: this.getState() });
+  }
+  resume() {
+    if (!this.state.started || !this.state.paused) return;
+    this.state = { ...this.state, paused: false };
+    this.events.emit('resume', { state: this.getState() });
+  }
+  reset() {
+    this.state = { started: false, paused: false, completed: false, score: 0, timestamp: 0 };
+    this.carry = 0;
+    this.events.emit('reset', { state: this.getState() });
+  }
+  // The game reached its end; the score stays until the next start or reset
+  complete() {
+    if (!this.state.started) return;
+    this.state = { ...this.state, started: false, paused: false, completed: true };
+    this.events.emit('completed', { state: this.getState() });
+  }
+
+  addScore(points = 1) {
+    this.setScore(this.state.score + points);
+  }
+  setScore(score: number) {
+    const points = score - this.state.score;
+    this.state = { ...this.state, score };
+    this.events.emit('scored', { state: this.getState(), points });
+  }
+
+  isPlaying() {
+    return this.state.started && !this.state.paused;
+  }
+  getState(): GameState {
+    return { ...this.state };
+  }
+
+  // Follows the platform's reduced-motion setting as well as the OS preference
+  get reducedMotion() {
+    const root = getComputedStyle(document.documentElement).getPropertyValue('--reduced-motion').trim() === '1';
+    return root || !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+  }
+
+  onUpdate(cb: (dtMs: number) => void) {
+    this.updateListeners.add(cb);
+    return () => this.updateListeners.delete(cb);
+  }
+  onFrame(cb: (dtMs: number) => void) {
+    this.frameListeners.add(cb);
+    return () => this.frameListeners.delete(cb);
+  }
+
+  private frame = (now: number) => {
+    const dt = this.last == null ? this.stepMs : Math.min(MAX_FRAME_MS, now - this.last);
+    this.last = now;
+    if (this.isPlaying()) {
+      this.carry += dt;
+      while (this.carry >= this.stepMs) {
+        this.carry -= this.stepMs;
+        this.state.timestamp += this.stepMs;
+        for (const l of this.updateListeners) l(this.stepMs);
+      }
+    }
+    for (const l of this.frameListeners) l(dt);
+    this.raf = requestAnimationFrame(this.frame);
+  };
+}
@@ -0,0 +1,60 @@
+import type { GameConfig, GameState } from '../types/game';
+import type { InputSource, PadInfo } from './InputManager';
+import type { Adjustment, Trial } from './AdaptiveDifficulty';
+
+// Payload for each event; lifecycle events carry the state after the change
+export type GameEventMap = {
+  start: { state: GameState };
+  pause: { state: GameState };
+  resume: { state: GameState };
+  reset: { state: GameState };
+  scored: { state: GameState; points: number };
+  completed: { state: GameState };
+  configChanged: { config: GameConfig };
+  // a preset was picked outside the settings panel, e.g. from a link
+  presetSelected: { presetId: string; config: GameConfig };
+  // a finished attempt, e.g. a target collected
+  trial: Trial;
+  // adaptive difficulty changed settings
+  adapted: { config: GameConfig; adjustments: Adjustment[] };
+  inputSourceChanged: { source: InputSource };
+  deviceDisconnected: { pad: PadInfo };
+};
+export type GameEventType = keyof GameEventMap;
+export type GameEvent<K extends GameEventType = GameEventType> = {
+  [T in K]: { type: T; at: number } & GameEventMap[T];
+}[K];
+
+type Listener = (e: GameEvent) => void;
+
+/**
+ * Lifecycle and platform events for one game instance. The shell, the game's
+ * component, session recording and announcements all listen here, so nothing
+ * goes through global window events.
+ */
+export class GameEventBus {
+  private listeners = new Map<GameEventType | '*', Set<Listener>>();
+
+  on<K extends GameEventType>(type: K, cb: (e: GameEvent<K>) => void) {
+    return this.add(type, cb as unknown as Listener);
+  }
+  onAny(cb: (e: GameEvent) => void) {
+    return this.add('*', cb);
+  }
+
+  emit<K extends GameEventType>(type: K, detail: GameEventMap[K]) {
+    const e = { ...detail, type, at: Date.now() } as GameEvent;
+    for (const l of [...(this.listeners.get(type) ?? []), ...(this.listeners.get('*') ?? [])]) l(e);
+  }
+
+  clear() {
+    this.listeners.clear();
+  }
+
+  private add(key: GameEventType | '*', cb: Listener) {
+    const set = this.listeners.get(key) ?? new Set<Listener>();
+    this.listeners.set(key, set);
+    set.add(cb);
+    return () => set.delete(cb);
+  }
+}
@@ -0,0 +1,118 @@
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'trigger' | 'pause' | 'reset' | 'recenter' | 'scanStep';
+
+// Keys are stored as lower-cased KeyboardEvent.key values
+export type Binding = { kind: 'key'; key: string } | { kind: 'button'; button: number };
+export type Bindings = Record<InputAction, Binding[]>;
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'up', label: 'Move up' },
+  { action: 'down', label: 'Move down' },
+  { action: 'left', label: 'Move left' },
+  { action: 'right', label: 'Move right' },
+  { action: 'trigger', label: 'Select' },
+  { action: 'pause', label: 'Pause' },
+  { action: 'reset', label: 'Reset' },
+  { action: 'recenter', label: 'Recenter' },
+  { action: 'scanStep', label: 'Scan step (two switches)' }
+];
+
+const key = (k: string): Binding => ({ kind: 'key', key: k });
+const button = (n: number): Binding => ({ kind: 'button', button: n });
+
+export const DEFAULT_BINDINGS: Bindings = {
+  up: [key('arrowup'), key('w'), button(12)],
+  down: [key('arrowdown'), key('s'), button(13)],
+  left: [key('arrowleft'), key('a'), button(14)],
+  right: [key('arrowright'), key('d'), button(15)],
+  trigger: [key(' '), key('enter'), button(0), button(1), button(2), button(3)],
+  pause: [key('p'), button(9)],
+  reset: [key('r'), button(8)],
+  recenter: [key('c'), button(10)],
+  scanStep: [key(' '), button(0)]
+};
+
+// Keys that keep the page usable and can't be captured
+export const RESERVED_KEYS = ['escape', 'tab'];
+
+export const bindingId = (b: Binding) => (b.kind === 'key' ? `key:${b.key}` : `button:${b.button}`);
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  enter: 'Enter',
+  arrowup: 'Arrow up',
+  arrowdown: 'Arrow down',
+  arrowleft: 'Arrow left',
+  arrowright: 'Arrow right',
+  backspace: 'Backspace',
+  shift: 'Shift',
+  control: 'Ctrl',
+  alt: 'Alt'
+};
+
+const BUTTON_NAMES: Record<number, string> = {
+  0: 'A / Cross',
+  1: 'B / Circle',
+  2: 'X / Square',
+  3: 'Y / Triangle',
+  8: 'Back / Select',
+  9: 'Start',
+  10: 'Left stick press',
+  11: 'Right stick press',
+  12: 'D-pad up',
+  13: 'D-pad down',
+  14: 'D-pad left',
+  15: 'D-pad right'
+};
+
+export function describeBinding(b: Binding) {
+  if (b.kind === 'button') {
+    const name = BUTTON_NAMES[b.button];
+    return name ? `Gamepad ${name} (button ${b.button})` : `Gamepad button ${b.button}`;
+  }
+  return KEY_NAMES[b.key] ?? (b.key.length === 1 ? b.key.toUpperCase() : b.key);
+}
+
+// Scan step only acts in two-switch scanning, where it takes priority over select
+const sharesAllowed = (a: InputAction, b: InputAction) =>
+  (a === 'scanStep' && b === 'trigger') || (a === 'trigger' && b === 'scanStep');
+
+/** Actions that share an input, keyed by binding id. */
+export function findConflicts(bindings: Bindings) {
+  const byId = new Map<string, InputAction[]>();
+  for (const { action } of INPUT_ACTIONS) {
+    for (const b of bindings[action]) byId.set(bindingId(b), [...(byId.get(bindingId(b)) ?? []), action]);
+  }
+  const conflicts = new Map<string, InputAction[]>();
+  for (const [id, actions] of byId) {
+    const clash = actions.some((a, i) => actions.slice(i + 1).some((b) => !sharesAllowed(a, b)));
+    if (clash) conflicts.set(id, actions);
+  }
+  return conflicts;
+}
+
+export function conflictsFor(bindings: Bindings, action: InputAction, b: Binding) {
+  return INPUT_ACTIONS.map((a) => a.action).filter(
+    (other) =>
+      other !== action && !sharesAllowed(action, other) && bindings[other].some((x) => bindingId(x) === bindingId(b))
+  );
+}
+
+function isBinding(v: unknown): v is Binding {
+  const b = v as Binding;
+  if (!b || typeof b !== 'object') return false;
+  if (b.kind === 'key') return typeof b.key === 'string' && b.key.length > 0 && !RESERVED_KEYS.includes(b.key);
+  return b.kind === 'button' && Number.isInteger(b.button) && b.button >= 0 && b.button < 32;
+}
+
+/** Drops damaged entries; actions missing from stored data keep their defaults. */
+export function sanitizeBindings(raw: unknown): Bindings {
+  const src = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const out = {} as Bindings;
+  for (const { action } of INPUT_ACTIONS) {
+    const list = src[action];
+    out[action] = Array.isArray(list)
+      ? list.filter(isBinding).map((b) => ({ ...b }))
+      : DEFAULT_BINDINGS[action].map((b) => ({ ...b }));
+  }
+  return out;
+}
@@ -0,0 +1,116 @@
+type Vector = { x: number; y: number };
+
+export type FilterKind = 'none' | 'low-pass' | 'moving-average' | 'one-euro';
+
+export type FilterSettings = {
+  kind: FilterKind;
+  strength: number; // 0..1, how much shake to smooth out
+  jitter: number; // 0..1, changes smaller than this are held still
+};
+
+// Low-pass at 0.22 matches the pointer blending games used before filters existed
+export const DEFAULT_FILTER: FilterSettings = { kind: 'low-pass', strength: 0.22, jitter: 0 };
+
+export const FILTER_KINDS: { value: FilterKind; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'low-pass', label: 'Smooth (low-pass)' },
+  { value: 'moving-average', label: 'Average recent movement' },
+  { value: 'one-euro', label: 'Adaptive (steady when slow, quick when fast)' }
+];
+
+const clamp01 = (v: unknown, fallback: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : fallback;
+
+export function sanitizeFilter(raw: unknown): FilterSettings {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<FilterSettings>;
+  return {
+    kind: FILTER_KINDS.some((k) => k.value === r.kind) ? r.kind! : DEFAULT_FILTER.kind,
+    strength: clamp01(r.strength, DEFAULT_FILTER.strength),
+    jitter: clamp01(r.jitter, DEFAULT_FILTER.jitter)
+  };
+}
+
+const alpha = (dtMs: number, cutoffHz: number) => {
+  const tau = 1000 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dtMs);
+};
+
+/**
+ * Smooths one input source. Each source owns an instance so a stick and a
+ * pointer never share history. `scale` maps the 0..1 jitter setting onto the
+ * source's units (stick deflection or pixels).
+ */
+export class VectorFilter {
+  private last: Vector | null = null;
+  private lastTime = 0;
+  private window: Vector[] = [];
+  private dx: Vector = { x: 0, y: 0 };
+  private held: Vector | null = null;
+
+  constructor(
+    private settings: FilterSettings,
+    private scale: number
+  ) {}
+
+  configure(settings: FilterSettings) {
+    this.settings = settings;
+    this.reset();
+  }
+
+  reset(seed: Vector | null = null) {
+    this.last = seed ? { ...seed } : null;
+    this.held = seed ? { ...seed } : null;
+    this.window = [];
+    this.dx = { x: 0, y: 0 };
+    this.lastTime = 0;
+  }
+
+  next(v: Vector, now: number): Vector {
+    const dt = this.lastTime ? Math.max(1, Math.min(100, now - this.lastTime)) : 16.7;
+    this.lastTime = now;
+    const out = this.smooth(v, dt);
+    this.last = out;
+    return this.suppressJitter(out);
+  }
+
+  private smooth(v: Vector, dt: number): Vector {
+    const { kind, strength } = this.settings;
+    const prev = this.last;
+    if (kind === 'none' || !prev || strength === 0) {
+      this.window = [v];
+      return { ...v };
+    }
+    if (kind === 'low-pass') {
+      const tau = strength * 300; // ms
+      const a = 1 - Math.exp(-dt / tau);
+      return { x: prev.x + (v.x - prev.x) * a, y: prev.y + (v.y - prev.y) * a };
+    }
+    if (kind === 'moving-average') {
+      const size = 2 + Math.round(strength * 13);
+      this.window = [...this.window, v].slice(-size);
+      const n = this.window.length;
+      return {
+        x: this.window.reduce((t, p) => t + p.x, 0) / n,
+        y: this.window.reduce((t, p) => t + p.y, 0) / n
+      };
+    }
+    // One Euro filter: cutoff rises with speed, so slow shaky movement is damped
+    // heavily while deliberate fast movement keeps up
+    const minCutoff = 3 - strength * 2.7; // Hz
+    const beta = 0.5 / this.scale;
+    const raw = { x: ((v.x - prev.x) * 1000) / dt, y: ((v.y - prev.y) * 1000) / dt };
+    const ad = alpha(dt, 1);
+    this.dx = { x: this.dx.x + (raw.x - this.dx.x) * ad, y: this.dx.y + (raw.y - this.dx.y) * ad };
+    const ax = alpha(dt, minCutoff + beta * Math.abs(this.dx.x));
+    const ay = alpha(dt, minCutoff + beta * Math.abs(this.dx.y));
+    return { x: prev.x + (v.x - prev.x) * ax, y: prev.y + (v.y - prev.y) * ay };
+  }
+
+  private suppressJitter(v: Vector): Vector {
+    const threshold = this.settings.jitter * this.scale;
+    if (!this.held || threshold === 0 || Math.hypot(v.x - this.held.x, v.y - this.held.y) >= threshold) {
+      this.held = { ...v };
+    }
+    return { ...this.held };
+  }
+}
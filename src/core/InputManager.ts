@@ -1,36 +1,252 @@
+import {
+  DEFAULT_BINDINGS,
+  bindingId,
+  sanitizeBindings,
+  type Binding,
+  type Bindings,
+  type InputAction
+} from './InputBindings';
+
+import { DEFAULT_FILTER, VectorFilter, sanitizeFilter, type FilterSettings } from './InputFilter';
+
 type Vector = { x: number; y: number };
-type Source = 'keyboard' | 'gamepad' | 'pointer';
+export type InputSource = 'keyboard' | 'gamepad' | 'pointer' | 'switch';
+type Source = InputSource;
+
+export type Reach = { up: number; down: number; left: number; right: number };
+export type Calibration = {
+  deadZoneX: number;
+  deadZoneY: number;
+  responseCurve: number;
+  // furthest comfortable deflection per direction; reaching it gives full output
+  reach: Reach;
+  offset: Vector; // resting drift, subtracted before shaping
+  axes: [number, number]; // x and y axis indices
+};
+
+export const DEFAULT_CALIBRATION: Calibration = {
+  deadZoneX: 0.25,
+  deadZoneY: 0.25,
+  responseCurve: 1.6,
+  reach: { up: 1, down: 1, left: 1, right: 1 },
+  offset: { x: 0, y: 0 },
+  axes: [0, 1]
+};
+
+// Which connected gamepads do what, remembered by gamepad id (indices change on replug)
+export type DeviceSettings = {
+  movement: string | null; // moves the cursor; null: first connected pad
+  buttons: string | null; // select, actions and switches; null: any connected pad
+  calibrations: Record<string, Calibration>; // pads without one use the default calibration
+};
+export type PadInfo = { index: number; id: string; axes: number; buttons: number };
+
+export type PointerMode = 'absolute' | 'joystick';
+export type PointerPoint = Vector & { phase: 'enter' | 'move'; pointerType: string };
+export type JoystickState = { origin: Vector; knob: Vector; radius: number } | null; // stage pixels
+
+// `active`: the pad was moving the cursor or sending buttons when it changed
+export type DeviceEvent = { type: 'connected' | 'disconnected'; pad: PadInfo; active: boolean };
+
+export const DEFAULT_DEVICES: DeviceSettings = { movement: null, buttons: null, calibrations: {} };
+
+const num = (v: unknown, fallback: number, min: number, max: number) =>
+  typeof v === 'number' && Number.isFinite(v) ? Math.min(max, Math.max(min, v)) : fallback;
+const axisIndex = (v: unknown, fallback: number) => (Number.isInteger(v) && (v as number) >= 0 ? (v as number) : fallback);
+
+/** Fills gaps and clamps stored values. Older saves had one `deadZone` for both axes. */
+export function sanitizeCalibration(raw: unknown): Calibration {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<Calibration> & { deadZone?: number };
+  const d = DEFAULT_CALIBRATION;
+  const dz = num(r.deadZone, d.deadZoneX, 0, 0.9);
+  const reach = (r.reach ?? {}) as Partial<Reach>;
+  const offset = (r.offset ?? {}) as Partial<Vector>;
+  return {
+    deadZoneX: num(r.deadZoneX, dz, 0, 0.9),
+    deadZoneY: num(r.deadZoneY, dz, 0, 0.9),
+    responseCurve: num(r.responseCurve, d.responseCurve, 0.5, 4),
+    reach: {
+      up: num(reach.up, 1, 0.2, 1),
+      down: num(reach.down, 1, 0.2, 1),
+      left: num(reach.left, 1, 0.2, 1),
+      right: num(reach.right, 1, 0.2, 1)
+    },
+    offset: { x: num(offset.x, 0, -0.5, 0.5), y: num(offset.y, 0, -0.5, 0.5) },
+    axes: Array.isArray(r.axes) ? [axisIndex(r.axes[0], 0), axisIndex(r.axes[1], 1)] : [...d.axes]
+  };
+}
+
+export function sanitizeDevices(raw: unknown): DeviceSettings {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<DeviceSettings>;
+  const id = (v: unknown) => (typeof v === 'string' && v ? v : null);
+  const calibrations: Record<string, Calibration> = {};
+  if (r.calibrations && typeof r.calibrations === 'object') {
+    for (const [k, v] of Object.entries(r.calibrations)) calibrations[k] = sanitizeCalibration(v);
+  }
+  return { movement: id(r.movement), buttons: id(r.buttons), calibrations };
+}
+
+const padInfo = (p: Gamepad): PadInfo => ({ index: p.index, id: p.id, axes: p.axes.length, buttons: p.buttons.length });
+
+function shapeAxis(v: number, offset: number, deadZone: number, reachNeg: number, reachPos: number, curve: number) {
+  const centred = v - offset;
+  const a = Math.abs(centred);
+  if (a <= deadZone) return 0;
+  const reach = centred < 0 ? reachNeg : reachPos;
+  const n = Math.min(1, (a - deadZone) / Math.max(0.05, reach - deadZone)); // 0..1 between dead zone and reach
+  return Math.sign(centred) * Math.pow(n, curve);
+}
+
+/** Raw stick position to game input: drift removed, dead zone, per-direction gain, then curve. */
+export function shapeInput(raw: Vector, c: Calibration): Vector {
+  return {
+    x: shapeAxis(raw.x, c.offset.x, c.deadZoneX, c.reach.left, c.reach.right, c.responseCurve),
+    y: shapeAxis(raw.y, c.offset.y, c.deadZoneY, c.reach.up, c.reach.down, c.responseCurve)
+  };
+}
+
+// Switch scanning: one switch selects the highlighted direction as it cycles,
+// two switches split stepping and selecting. A long press sends a trigger.
+export type ScanMode = 'off' | 'one-switch' | 'two-switch';
+export type ScanSettings = { mode: ScanMode; rateMs: number; directions: 4 | 8; longPressMs: number };
+export type ScanDirection = Vector & { label: string };
+export type ScanState = { mode: ScanMode; index: number; direction: ScanDirection; moving: boolean };
+
+export const DEFAULT_SCAN: ScanSettings = { mode: 'off', rateMs: 1500, directions: 4, longPressMs: 800 };
+
+const D = Math.SQRT1_2;
+const SCAN_DIRECTIONS: Record<4 | 8, ScanDirection[]> = {
+  4: [
+    { label: 'Up', x: 0, y: -1 },
+    { label: 'Right', x: 1, y: 0 },
+    { label: 'Down', x: 0, y: 1 },
+    { label: 'Left', x: -1, y: 0 }
+  ],
+  8: [
+    { label: 'Up', x: 0, y: -1 },
+    { label: 'Up right', x: D, y: -D },
+    { label: 'Right', x: 1, y: 0 },
+    { label: 'Down right', x: D, y: D },
+    { label: 'Down', x: 0, y: 1 },
+    { label: 'Down left', x: -D, y: D },
+    { label: 'Left', x: -1, y: 0 },
+    { label: 'Up left', x: -D, y: -D }
+  ]
+};
+
+export function scanDirections(count: 4 | 8) {
+  return SCAN_DIRECTIONS[count];
+}
+
+// Switch presses on a focused control belong to that control, not the game
+const isControl = (t: EventTarget | null) =>
+  t instanceof Element && !!t.closest('button, input, select, textarea, a[href], [contenteditable="true"]');
+// Settings panels and dialogs laid over a stage keep normal pointer behaviour
+const isOverlay = (t: EventTarget | null, stage: Element) => {
+  const panel = t instanceof Element ? t.closest('[role="region"], [role="dialog"], [role="alertdialog"], fieldset') : null;
+  return isControl(t) || (!!panel && panel !== stage && stage.contains(panel));
+};
+// Letters typed into a field shouldn't pause or reset the game
+const isTyping = (t: EventTarget | null) =>
+  t instanceof Element && !!t.closest('input, select, textarea, [contenteditable="true"]');
 
 export class InputManager {
   private listeners = new Set<(v: Vector, source: Source) => void>();
   private triggerListeners = new Set<() => void>();
-  private gamepadId: number | null = null;
+  private scanListeners = new Set<(s: ScanState) => void>();
+  private deviceListeners = new Set<(e: DeviceEvent) => void>();
+  // pointer, touch and pen on a registered stage
+  private pointListeners = new Set<(p: PointerPoint) => void>();
+  private joystickListeners = new Set<(s: JoystickState) => void>();
+  private movementId: string | null = null;
   private raf: number | null = null;
-  private gamepadButtonDown = false;
+  private padButtons = new Map<number, boolean[]>(); // by pad index
+  private devices: DeviceSettings = sanitizeDevices(DEFAULT_DEVICES);
   // calibration
-  private deadZone = 0.25; // ignore tiny stick drift
-  private responseCurve = 1.6; // ease-in curve for fine control
+  private calibration = sanitizeCalibration(DEFAULT_CALIBRATION);
+  // tremor filtering for continuous sources; keys and switches are discrete and pass through
+  private filter = sanitizeFilter(DEFAULT_FILTER);
+  private filters = {
+    gamepad: new VectorFilter(this.filter, 0.1), // jitter in stick deflection
+    pointer: new VectorFilter(this.filter, 10) // jitter in pixels
+  };
+  // switch scanning
+  private scan: ScanSettings = { ...DEFAULT_SCAN };
+  private scanIndex = 0;
+  private scanMoving = false;
+  private scanTimer: ReturnType<typeof setInterval> | null = null;
+  private holdTimer: ReturnType<typeof setTimeout> | null = null;
+  private longPressed = false;
+  // remappable bindings
+  private bindings: Bindings = sanitizeBindings(DEFAULT_BINDINGS);
+  private actionListeners = new Set<(action: InputAction) => void>();
+  private capture: ((b: Binding | null) => void) | null = null;
 
   constructor() {
-    window.addEventListener('gamepadconnected', () => this.pollGamepad());
-    window.addEventListener('gamepaddisconnected', () => this.stopPolling());
+    window.addEventListener('gamepadconnected', (e) => {
+      this.pollGamepad();
+      const gp = (e as GamepadEvent).gamepad;
+      if (gp) this.emitDevice({ type: 'connected', pad: padInfo(gp), active: this.usesPad(gp.id) });
+    });
+    window.addEventListener('gamepaddisconnected', (e) => {
+      const gp = (e as GamepadEvent).gamepad;
+      const active = !!gp && (gp.id === this.movementId || this.usesPad(gp.id));
+      if (gp) this.padButtons.delete(gp.index);
+      if (gp && gp.id === this.movementId) {
+        // don't leave games steering with the last stick position
+        this.movementId = null;
+        this.filters.gamepad.reset();
+        this.emit({ x: 0, y: 0 }, 'gamepad');
+      }
+      // keep polling while any other pad is still plugged in
+      if (!this.listGamepads().length) this.stopPolling();
+      if (gp) this.emitDevice({ type: 'disconnected', pad: padInfo(gp), active });
+    });
   // Start polling eagerly so controllers/D-pad work even if the page loads with a pad already connected
   this.pollGamepad();
 
     const keys = new Set<string>();
+    let swallowKeyUp: string | null = null;
   window.addEventListener('keydown', (e) => {
       const k = e.key.toLowerCase();
+      if (this.capture) {
+        if (k === 'tab') return; // let focus move on
+        // keep the key away from the focused control so it isn't also activated
+        e.preventDefault();
+        e.stopPropagation();
+        swallowKeyUp = k;
+        this.finishCapture(k === 'escape' ? null : { kind: 'key', key: k });
+        return;
+      }
+      const binding: Binding = { kind: 'key', key: k };
+      const sw = isControl(e.target) ? null : this.switchFor(binding);
+      if (sw != null) {
+        e.preventDefault();
+        if (!e.repeat) this.switchDown(sw);
+        return;
+      }
       // prevent page scroll/navigation on arrows
       if (k.startsWith('arrow') || k === 'up' || k === 'down' || k === 'left' || k === 'right') {
         e.preventDefault();
       }
       keys.add(k);
       this.emit(this.keyVector(keys), 'keyboard');
-  // trigger on Space/Enter
-  if (k === ' ' || k === 'space' || k === 'enter') this.emitTrigger();
+      if (!e.repeat && !isTyping(e.target)) this.pressActions(binding);
   }, { capture: true });
   window.addEventListener('keyup', (e) => {
       const k = e.key.toLowerCase();
+      if (swallowKeyUp === k) {
+        swallowKeyUp = null;
+        e.preventDefault();
+        e.stopPropagation();
+        return;
+      }
+      const sw = isControl(e.target) ? null : this.switchFor({ kind: 'key', key: k });
+      if (sw != null) {
+        e.preventDefault();
+        this.switchUp(sw);
+        return;
+      }
       if (k.startsWith('arrow') || k === 'up' || k === 'down' || k === 'left' || k === 'right') {
         e.preventDefault();
       }
@@ -42,6 +258,7 @@ export class InputManager {
         keys.clear();
         this.emit({ x: 0, y: 0 }, 'keyboard');
       }
+      this.cancelHold();
     });
   }
 
@@ -63,64 +280,385 @@ export class InputManager {
     return () => this.triggerListeners.delete(cb);
   }
 
+  // Pause, reset and recenter; the shell resets, games decide what the others mean
+  onAction(cb: (action: InputAction) => void) {
+    this.actionListeners.add(cb);
+    return () => this.actionListeners.delete(cb);
+  }
+
+  setBindings(bindings: Bindings) {
+    this.bindings = sanitizeBindings(bindings);
+  }
+  getBindings(): Bindings {
+    return sanitizeBindings(this.bindings);
+  }
+
+  /** Reports the next key or gamepad button instead of acting on it; Escape reports null. */
+  captureNext(cb: (b: Binding | null) => void) {
+    this.capture?.(null);
+    this.capture = cb;
+    return () => {
+      if (this.capture === cb) this.capture = null;
+    };
+  }
+
+  private finishCapture(b: Binding | null) {
+    const cb = this.capture;
+    this.capture = null;
+    cb?.(b);
+  }
+
+  private bound(action: InputAction, b: Binding) {
+    const id = bindingId(b);
+    return this.bindings[action].some((x) => bindingId(x) === id);
+  }
+
+  private pressActions(b: Binding) {
+    if (this.bound('trigger', b)) this.emitTrigger();
+    for (const action of ['pause', 'reset', 'recenter'] as const) {
+      if (!this.bound(action, b)) continue;
+      for (const l of this.actionListeners) l(action);
+    }
+  }
+
+  // Which scan switch an input acts as, if scanning is on
+  private switchFor(b: Binding): 0 | 1 | null {
+    if (this.scan.mode === 'off') return null;
+    const step = this.bound('scanStep', b);
+    const select = this.bound('trigger', b);
+    if (this.scan.mode === 'two-switch') return step ? 0 : select ? 1 : null;
+    return step || select ? 1 : null;
+  }
+
+  /**
+   * Takes over pointer, touch and pen input on a game stage. 'absolute' reports
+   * positions in stage pixels through onPoint and a press as a trigger;
+   * 'joystick' turns a drag from wherever the finger lands into a movement
+   * vector, and a tap without dragging into a trigger.
+   */
+  attachStage(el: HTMLElement, { mode = 'absolute', radius = 80 }: { mode?: PointerMode; radius?: number } = {}) {
+    const local = (e: PointerEvent) => {
+      const r = el.getBoundingClientRect();
+      return { x: e.clientX - r.left, y: e.clientY - r.top };
+    };
+    const dead = radius * 0.15;
+    let drag: { id: number; origin: Vector; moved: boolean } | null = null;
+
+    const release = () => {
+      drag = null;
+      this.emit({ x: 0, y: 0 }, 'pointer');
+      this.emitJoystick(null);
+    };
+    const onEnter = (e: PointerEvent) => {
+      if (mode === 'absolute') this.emitPoint({ ...local(e), phase: 'enter', pointerType: e.pointerType });
+    };
+    const onMove = (e: PointerEvent) => {
+      if (mode === 'absolute') {
+        this.emitPoint({ ...local(e), phase: 'move', pointerType: e.pointerType });
+        return;
+      }
+      if (!drag || e.pointerId !== drag.id) return;
+      const p = local(e);
+      const dx = p.x - drag.origin.x;
+      const dy = p.y - drag.origin.y;
+      const len = Math.hypot(dx, dy);
+      if (len > dead) drag.moved = true;
+      const k = len > radius ? radius / len : 1; // knob stops at the rim
+      this.emit(len > dead ? { x: (dx * k) / radius, y: (dy * k) / radius } : { x: 0, y: 0 }, 'pointer');
+      this.emitJoystick({ origin: drag.origin, knob: { x: drag.origin.x + dx * k, y: drag.origin.y + dy * k }, radius });
+    };
+    const onDown = (e: PointerEvent) => {
+      if (isOverlay(e.target, el)) return;
+      if (mode === 'absolute') {
+        this.emitPoint({ ...local(e), phase: 'move', pointerType: e.pointerType });
+        this.emitTrigger();
+        return;
+      }
+      if (drag) return; // a second finger doesn't take over
+      el.setPointerCapture?.(e.pointerId);
+      drag = { id: e.pointerId, origin: local(e), moved: false };
+      this.emitJoystick({ origin: drag.origin, knob: drag.origin, radius });
+    };
+    const onUp = (e: PointerEvent) => {
+      if (!drag || e.pointerId !== drag.id) return;
+      if (!drag.moved && e.type === 'pointerup') this.emitTrigger();
+      release();
+    };
+
+    el.addEventListener('pointerenter', onEnter);
+    el.addEventListener('pointermove', onMove);
+    el.addEventListener('pointerdown', onDown);
+    el.addEventListener('pointerup', onUp);
+    el.addEventListener('pointercancel', onUp);
+    return () => {
+      el.removeEventListener('pointerenter', onEnter);
+      el.removeEventListener('pointermove', onMove);
+      el.removeEventListener('pointerdown', onDown);
+      el.removeEventListener('pointerup', onUp);
+      el.removeEventListener('pointercancel', onUp);
+      if (drag) release();
+    };
+  }
+
+  // Absolute pointer positions on the attached stage
+  onPoint(cb: (p: PointerPoint) => void) {
+    this.pointListeners.add(cb);
+    return () => this.pointListeners.delete(cb);
+  }
+
+  private emitPoint(p: PointerPoint) {
+    for (const l of this.pointListeners) l(p);
+  }
+
+  // Where the on-screen joystick is drawn; null when nobody is touching it
+  onJoystick(cb: (s: JoystickState) => void) {
+    this.joystickListeners.add(cb);
+    return () => this.joystickListeners.delete(cb);
+  }
+
+  private emitJoystick(s: JoystickState) {
+    for (const l of this.joystickListeners) l(s);
+  }
+
+  // Gamepads plugged in or removed
+  onDevice(cb: (e: DeviceEvent) => void) {
+    this.deviceListeners.add(cb);
+    return () => this.deviceListeners.delete(cb);
+  }
+
+  private emitDevice(e: DeviceEvent) {
+    for (const l of this.deviceListeners) l(e);
+  }
+
+  onScan(cb: (s: ScanState) => void) {
+    this.scanListeners.add(cb);
+    return () => this.scanListeners.delete(cb);
+  }
+
+  setScanning(opts: Partial<ScanSettings>) {
+    const next = { ...this.scan, ...opts };
+    this.scan = {
+      mode: ['off', 'one-switch', 'two-switch'].includes(next.mode) ? next.mode : 'off',
+      rateMs: Math.min(5000, Math.max(300, Number(next.rateMs) || DEFAULT_SCAN.rateMs)),
+      directions: next.directions === 8 ? 8 : 4,
+      longPressMs: Math.min(3000, Math.max(300, Number(next.longPressMs) || DEFAULT_SCAN.longPressMs))
+    };
+    this.cancelHold();
+    if (this.scanMoving) this.emit({ x: 0, y: 0 }, 'switch');
+    this.scanMoving = false;
+    this.scanIndex = 0;
+    this.restartScan();
+    this.notifyScan();
+  }
+  getScanning(): ScanSettings {
+    return { ...this.scan };
+  }
+  getScanState(): ScanState {
+    const dirs = SCAN_DIRECTIONS[this.scan.directions];
+    return { mode: this.scan.mode, index: this.scanIndex, direction: dirs[this.scanIndex % dirs.length]!, moving: this.scanMoving };
+  }
+
+  private notifyScan() {
+    const state = this.getScanState();
+    for (const l of this.scanListeners) l(state);
+  }
+
+  private restartScan() {
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.scanTimer = null;
+    // two-switch users step manually; one-switch scanning pauses while moving
+    if (this.scan.mode === 'one-switch' && !this.scanMoving) {
+      this.scanTimer = setInterval(() => this.stepScan(), this.scan.rateMs);
+    }
+  }
+
+  private stepScan() {
+    this.scanIndex = (this.scanIndex + 1) % SCAN_DIRECTIONS[this.scan.directions].length;
+    this.notifyScan();
+  }
+
+  private selectScan() {
+    this.scanMoving = !this.scanMoving;
+    const dir = this.getScanState().direction;
+    this.emit(this.scanMoving ? { x: dir.x, y: dir.y } : { x: 0, y: 0 }, 'switch');
+    this.restartScan();
+    this.notifyScan();
+  }
+
+  private cancelHold() {
+    if (this.holdTimer) clearTimeout(this.holdTimer);
+    this.holdTimer = null;
+  }
+
+  private switchDown(n: 0 | 1) {
+    if (this.scan.mode === 'two-switch' && n === 0) {
+      if (this.scanMoving) this.selectScan();
+      this.stepScan();
+      return;
+    }
+    if (this.holdTimer) return;
+    this.longPressed = false;
+    // freeze the highlight so the press selects what the user saw
+    if (this.scanTimer) clearInterval(this.scanTimer);
+    this.scanTimer = null;
+    this.holdTimer = setTimeout(() => {
+      this.holdTimer = null;
+      this.longPressed = true;
+      this.emitTrigger();
+    }, this.scan.longPressMs);
+  }
+
+  private switchUp(n: 0 | 1) {
+    if (this.scan.mode === 'two-switch' && n === 0) return;
+    const held = !!this.holdTimer;
+    this.cancelHold();
+    if (held) this.selectScan();
+    else if (this.longPressed) this.restartScan();
+    this.longPressed = false;
+  }
+
   private keyVector(keys: Set<string>): Vector {
-    const up = keys.has('arrowup') || keys.has('up') || keys.has('w');
-    const down = keys.has('arrowdown') || keys.has('down') || keys.has('s');
-    const left = keys.has('arrowleft') || keys.has('left') || keys.has('a');
-    const right = keys.has('arrowright') || keys.has('right') || keys.has('d');
+    const held = (action: InputAction) => this.bindings[action].some((b) => b.kind === 'key' && keys.has(b.key));
+    const up = held('up');
+    const down = held('down');
+    const left = held('left');
+    const right = held('right');
     return { x: (right ? 1 : 0) - (left ? 1 : 0), y: (down ? 1 : 0) - (up ? 1 : 0) };
   }
 
   // Allow runtime calibration from UI
-  setCalibration(opts: Partial<{ deadZone: number; responseCurve: number }>) {
-    if (typeof opts.deadZone === 'number') this.deadZone = Math.min(0.9, Math.max(0, opts.deadZone));
-    if (typeof opts.responseCurve === 'number') this.responseCurve = Math.max(0.5, opts.responseCurve);
+  setCalibration(opts: Partial<Calibration> & { deadZone?: number }) {
+    const legacy = typeof opts.deadZone === 'number' ? { deadZoneX: opts.deadZone, deadZoneY: opts.deadZone } : {};
+    this.calibration = sanitizeCalibration({ ...this.calibration, ...legacy, ...opts });
+  }
+  getCalibration(): Calibration {
+    return sanitizeCalibration(this.calibration);
+  }
+
+  setFilter(settings: Partial<FilterSettings>) {
+    this.filter = sanitizeFilter({ ...this.filter, ...settings });
+    this.filters.gamepad.configure(this.filter);
+    this.filters.pointer.configure(this.filter);
+  }
+  getFilter(): FilterSettings {
+    return { ...this.filter };
+  }
+
+  /** Filters an absolute pointer position (in pixels) once per frame. */
+  filterPoint(p: Vector, now = performance.now()): Vector {
+    return this.filters.pointer.next(p, now);
+  }
+  // Start pointer filtering from here, e.g. when the pointer takes over the cursor
+  resetPointerFilter(p: Vector) {
+    this.filters.pointer.reset(p);
+  }
+
+  setDevices(settings: Partial<DeviceSettings>) {
+    this.devices = sanitizeDevices({ ...this.devices, ...settings });
+    this.filters.gamepad.reset();
   }
-  getCalibration() {
-    return { deadZone: this.deadZone, responseCurve: this.responseCurve };
+  getDevices(): DeviceSettings {
+    return sanitizeDevices(this.devices);
+  }
+  // Per-device calibration; null goes back to the profile default
+  setDeviceCalibration(id: string, calibration: Calibration | null) {
+    const calibrations = { ...this.devices.calibrations };
+    if (calibration) calibrations[id] = sanitizeCalibration(calibration);
+    else delete calibrations[id];
+    this.setDevices({ calibrations });
+  }
+  calibrationFor(id: string | null): Calibration {
+    return sanitizeCalibration((id && this.devices.calibrations[id]) || this.calibration);
+  }
+  // Id of the pad currently moving the cursor
+  getMovementDevice() {
+    return this.movementId;
+  }
+
+  listGamepads(): PadInfo[] {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    return pads.filter((p): p is Gamepad => !!p).map(padInfo);
+  }
+
+  // Whether a pad with this id drives movement or buttons under the current device roles
+  private usesPad(id: string) {
+    const { movement, buttons } = this.devices;
+    return id === movement || buttons == null || id === buttons;
   }
 
-  private shapeAxis(v: number): number {
-    const a = Math.abs(v);
-    if (a <= this.deadZone) return 0;
-    const n = (a - this.deadZone) / (1 - this.deadZone); // normalize 0..1 after dead zone
-    const curved = Math.pow(n, this.responseCurve);
-    return Math.sign(v) * curved;
+  // Unshaped axis values, for calibration
+  readAxes(padIndex: number): number[] | null {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const gp = pads[padIndex];
+    return gp ? [...gp.axes] : null;
   }
 
   private pollGamepad() {
     const step = () => {
-      const pads = navigator.getGamepads ? navigator.getGamepads() : [];
-      const gp = pads.find((p) => !!p) || null;
-      if (gp) {
-        this.gamepadId = gp.index;
-        // Sticks (prefer left stick axes[0], axes[1])
-        const axX = this.shapeAxis(gp.axes?.[0] ?? 0);
-        const axY = this.shapeAxis(gp.axes?.[1] ?? 0);
-        // D-pad fallback (buttons 12=Up, 13=Down, 14=Left, 15=Right)
-        const b = gp.buttons || [];
-        const dpadX = (b[15]?.pressed ? 1 : 0) - (b[14]?.pressed ? 1 : 0);
-        const dpadY = (b[13]?.pressed ? 1 : 0) - (b[12]?.pressed ? 1 : 0);
-        // Prefer the larger magnitude per axis
-        const x = Math.abs(axX) >= Math.abs(dpadX) ? axX : dpadX;
-        const y = Math.abs(axY) >= Math.abs(dpadY) ? axY : dpadY;
-        this.emit({ x, y }, 'gamepad');
-        // trigger on any primary button rising-edge
-        const anyPressed = (gp.buttons || []).some((btn) => !!btn && btn.pressed);
-        if (anyPressed && !this.gamepadButtonDown) {
-          this.emitTrigger();
-        }
-        this.gamepadButtonDown = anyPressed;
-      }
+      const pads = (navigator.getGamepads ? navigator.getGamepads() : []).filter((p): p is Gamepad => !!p);
+      const { movement, buttons } = this.devices;
+      // a remembered device that isn't plugged in falls back to any connected pad
+      // (identical pads share an id; the first one wins)
+      const mover = pads.find((p) => p.id === movement) ?? pads[0] ?? null;
+      const buttonPads = pads.some((p) => p.id === buttons) ? pads.filter((p) => p.id === buttons) : pads;
+      this.movementId = mover?.id ?? null;
+      if (mover) this.padMovement(mover);
+      for (const gp of buttonPads) this.padButtonEdges(gp);
       this.raf = requestAnimationFrame(step);
     };
     if (!this.raf) this.raf = requestAnimationFrame(step);
   }
 
+  private padMovement(gp: Gamepad) {
+    const calibration = this.calibrationFor(gp.id);
+    const { axes } = calibration;
+    // Stick chosen during calibration (left stick axes 0/1 by default)
+    const { x: axX, y: axY } = shapeInput({ x: gp.axes?.[axes[0]] ?? 0, y: gp.axes?.[axes[1]] ?? 0 }, calibration);
+    // D-pad fallback (buttons bound to movement, 12-15 by default)
+    const b = gp.buttons || [];
+    const held = (action: InputAction) =>
+      this.bindings[action].some((x) => x.kind === 'button' && !!b[x.button]?.pressed);
+    const dpadX = (held('right') ? 1 : 0) - (held('left') ? 1 : 0);
+    const dpadY = (held('down') ? 1 : 0) - (held('up') ? 1 : 0);
+    // Prefer the larger magnitude per axis
+    const x = Math.abs(axX) >= Math.abs(dpadX) ? axX : dpadX;
+    const y = Math.abs(axY) >= Math.abs(dpadY) ? axY : dpadY;
+    if (x === 0 && y === 0) {
+      // letting go always stops at once, however strong the smoothing
+      this.filters.gamepad.reset({ x: 0, y: 0 });
+      this.emit({ x: 0, y: 0 }, 'gamepad');
+    } else {
+      this.emit(this.filters.gamepad.next({ x, y }, performance.now()), 'gamepad');
+    }
+  }
+
+  // act on button edges; USB switch interfaces also appear as buttons
+  private padButtonEdges(gp: Gamepad) {
+    const prev = this.padButtons.get(gp.index) ?? [];
+    this.padButtons.set(gp.index, prev);
+    (gp.buttons || []).forEach((btn, i) => {
+      const pressed = !!btn?.pressed;
+      if (pressed === !!prev[i]) return;
+      prev[i] = pressed;
+      const binding: Binding = { kind: 'button', button: i };
+      if (this.capture) {
+        if (pressed) this.finishCapture(binding);
+        return;
+      }
+      const sw = this.switchFor(binding);
+      if (sw != null) {
+        if (pressed) this.switchDown(sw);
+        else this.switchUp(sw);
+      } else if (pressed) {
+        this.pressActions(binding);
+      }
+    });
+  }
+
   private stopPolling() {
     if (this.raf) cancelAnimationFrame(this.raf);
     this.raf = null;
-    this.gamepadId = null;
-  this.gamepadButtonDown = false;
+    this.movementId = null;
+  this.padButtons.clear();
   }
 }
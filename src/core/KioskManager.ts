@@ -0,0 +1,136 @@
+export type KioskState = {
+  locked: boolean;
+  gameId: string | null; // the game the learner is kept in
+  profileId: string | null;
+};
+
+export const UNLOCK_HOLD_MS = 3000;
+// Held together for UNLOCK_HOLD_MS to unlock without the PIN
+export const UNLOCK_CHORD = ['Control', 'Alt', 'u'];
+
+const UNLOCKED: KioskState = { locked: false, gameId: null, profileId: null };
+
+/**
+ * Supervised mode: keeps a learner in one game until a supervisor unlocks it,
+ * either by holding the unlock chord or by entering the PIN. Without a PIN,
+ * holding the on-screen supervisor button also unlocks. Stored outside any profile so a reload stays locked.
+ * The PIN deters learners; it is not a security boundary.
+ */
+export class KioskManager {
+  private key = 'agp:kiosk';
+  private listeners = new Set<(s: KioskState) => void>();
+  private holdTimer: ReturnType<typeof setTimeout> | null = null;
+
+  getState(): KioskState {
+    const { pin: _pin, ...state } = this.read();
+    return state;
+  }
+  isLocked() {
+    return this.read().locked;
+  }
+  hasPin() {
+    return !!this.read().pin;
+  }
+
+  // Digits only; null or '' removes the PIN so only the hold unlocks
+  setPin(pin: string | null) {
+    const clean = pin?.replace(/\D/g, '') || undefined;
+    this.write({ ...this.read(), pin: clean });
+  }
+
+  lock(gameId: string | null, profileId: string | null = null) {
+    this.write({ ...this.read(), locked: true, gameId, profileId });
+  }
+
+  // false when a PIN is set and this is not it
+  unlock(pin: string) {
+    const stored = this.read().pin;
+    if (stored && pin !== stored) return false;
+    this.release();
+    return true;
+  }
+
+  // On-screen hold; with a PIN set only the keypad or the chord unlocks
+  startHold() {
+    if (!this.hasPin()) this.beginHold();
+  }
+  endHold() {
+    if (this.holdTimer) clearTimeout(this.holdTimer);
+    this.holdTimer = null;
+  }
+
+  private beginHold() {
+    if (!this.isLocked() || this.holdTimer) return;
+    this.holdTimer = setTimeout(() => {
+      this.holdTimer = null;
+      this.release();
+    }, UNLOCK_HOLD_MS);
+  }
+
+  subscribe(cb: (s: KioskState) => void) {
+    this.listeners.add(cb);
+    return () => this.listeners.delete(cb);
+  }
+
+  // Unlock chord and the leave-page warning
+  attach(win: Window = window) {
+    const held = new Set<string>();
+    const chord = () => UNLOCK_CHORD.every((k) => held.has(k));
+    const down = (e: KeyboardEvent) => {
+      held.add(e.key.length === 1 ? e.key.toLowerCase() : e.key);
+      if (chord()) this.beginHold();
+    };
+    const up = (e: KeyboardEvent) => {
+      held.delete(e.key.length === 1 ? e.key.toLowerCase() : e.key);
+      if (!chord()) this.endHold();
+    };
+    const blur = () => {
+      held.clear();
+      this.endHold();
+    };
+    const beforeUnload = (e: BeforeUnloadEvent) => {
+      if (!this.isLocked()) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    win.addEventListener('keydown', down);
+    win.addEventListener('keyup', up);
+    win.addEventListener('blur', blur);
+    win.addEventListener('beforeunload', beforeUnload);
+    return () => {
+      win.removeEventListener('keydown', down);
+      win.removeEventListener('keyup', up);
+      win.removeEventListener('blur', blur);
+      win.removeEventListener('beforeunload', beforeUnload);
+      this.endHold();
+    };
+  }
+
+  private release() {
+    this.endHold();
+    this.write({ ...this.read(), ...UNLOCKED });
+  }
+
+  private read(): KioskState & { pin?: string } {
+    try {
+      const raw = JSON.parse(localStorage.getItem(this.key) ?? 'null');
+      if (!raw || typeof raw !== 'object') return { ...UNLOCKED };
+      return {
+        locked: raw.locked === true,
+        gameId: typeof raw.gameId === 'string' ? raw.gameId : null,
+        profileId: typeof raw.profileId === 'string' ? raw.profileId : null,
+        ...(typeof raw.pin === 'string' && raw.pin ? { pin: raw.pin } : {})
+      };
+    } catch {
+      return { ...UNLOCKED };
+    }
+  }
+
+  private write(next: KioskState & { pin?: string }) {
+    try {
+      localStorage.setItem(this.key, JSON.stringify(next));
+    } catch {}
+    const state = this.getState();
+    for (const l of this.listeners) l(state);
+  }
+}
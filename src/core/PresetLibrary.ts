@@ -0,0 +1,102 @@
+import type { GameConfig, GameDefinition, GamePreset } from '../types/game';
+import { ConfigManager, defaultsFor, validateConfig } from './ConfigManager';
+
+export type StoredPresets = {
+  selected: string | null; // last preset chosen, for the "changed" indicator
+  saved: GamePreset[];
+};
+
+const EMPTY: StoredPresets = { selected: null, saved: [] };
+
+export function sanitizePresets(raw: unknown): StoredPresets {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Partial<StoredPresets>;
+  const saved = Array.isArray(r.saved)
+    ? r.saved.filter(
+        (p): p is GamePreset =>
+          !!p && typeof p.id === 'string' && typeof p.name === 'string' && !!p.config && typeof p.config === 'object'
+      )
+    : [];
+  return { selected: typeof r.selected === 'string' ? r.selected : null, saved };
+}
+
+/**
+ * A game's built-in presets plus the ones the learner's supervisors saved,
+ * stored per profile as `presets:<gameId>` so they travel with settings exports.
+ */
+export class PresetLibrary {
+  private stored: StoredPresets;
+
+  constructor(
+    private config: ConfigManager,
+    private game: Pick<GameDefinition, 'id' | 'configSchema' | 'presets'>
+  ) {
+    this.stored = sanitizePresets(config.loadValue(this.name, EMPTY));
+  }
+
+  get name() {
+    return `presets:${this.game.id}`;
+  }
+
+  builtIn(): GamePreset[] {
+    return this.game.presets ?? [];
+  }
+  saved(): GamePreset[] {
+    return [...this.stored.saved];
+  }
+  list(): GamePreset[] {
+    return [...this.builtIn(), ...this.stored.saved];
+  }
+  isBuiltIn(id: string) {
+    return this.builtIn().some((p) => p.id === id);
+  }
+
+  // Links may name a preset by id or by name
+  find(idOrName: string) {
+    const name = idOrName.toLowerCase();
+    return this.list().find((p) => p.id === idOrName || p.name.toLowerCase() === name) ?? null;
+  }
+
+  // The full config a preset stands for
+  resolve(preset: GamePreset): GameConfig {
+    const schema = this.game.configSchema;
+    return validateConfig(schema, { ...defaultsFor(schema), ...preset.config }).config;
+  }
+  matches(preset: GamePreset, config: GameConfig) {
+    const full = this.resolve(preset);
+    return Object.keys(full).every((k) => full[k] === config[k]);
+  }
+
+  getSelected() {
+    const id = this.stored.selected;
+    return id ? this.list().find((p) => p.id === id) ?? null : null;
+  }
+  select(id: string | null) {
+    this.stored = { ...this.stored, selected: id };
+    this.persist();
+  }
+
+  // Saving under an existing name replaces that preset
+  save(name: string, config: GameConfig): GamePreset {
+    const existing = this.stored.saved.find((p) => p.name.toLowerCase() === name.toLowerCase());
+    const id = existing?.id ?? `saved-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const preset = { id, name, config: { ...config } };
+    this.stored = {
+      selected: preset.id,
+      saved: existing ? this.stored.saved.map((p) => (p === existing ? preset : p)) : [...this.stored.saved, preset]
+    };
+    this.persist();
+    return preset;
+  }
+
+  remove(id: string) {
+    this.stored = {
+      selected: this.stored.selected === id ? null : this.stored.selected,
+      saved: this.stored.saved.filter((p) => p.id !== id)
+    };
+    this.persist();
+  }
+
+  private persist() {
+    if (this.config.getConsent()) this.config.saveValue(this.name, this.stored);
+  }
+}
@@ -0,0 +1,97 @@
+import { ConfigManager } from './ConfigManager';
+
+export type ProfileIcon = 'star' | 'heart' | 'circle' | 'square' | 'triangle' | 'moon';
+
+export type Profile = {
+  id: string;
+  name: string;
+  color: string;
+  icon?: ProfileIcon;
+};
+
+export const PROFILE_COLORS = [
+  { name: 'Blue', value: '#0033aa' },
+  { name: 'Red', value: '#d10f0f' },
+  { name: 'Green', value: '#0c8a1f' },
+  { name: 'Purple', value: '#6a1b9a' },
+  { name: 'Orange', value: '#b35900' },
+  { name: 'Black', value: '#000000' }
+] as const;
+export const PROFILE_ICONS: ProfileIcon[] = ['star', 'heart', 'circle', 'square', 'triangle', 'moon'];
+
+/**
+ * The learners set up on this device. Names stay in memory until local data
+ * storage is accepted; `persist()` writes them once it is.
+ */
+export class ProfileManager {
+  private key = 'agp:profiles';
+  private listeners = new Set<() => void>();
+  private profiles: Profile[];
+
+  // the device-wide scope holds the consent
+  constructor(private config = new ConfigManager()) {
+    this.profiles = this.read();
+  }
+
+  list(): Profile[] {
+    return [...this.profiles];
+  }
+
+  private read(): Profile[] {
+    try {
+      const raw = localStorage.getItem(this.key);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((p) => p && typeof p.id === 'string' && typeof p.name === 'string')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  get(id: string) {
+    return this.list().find((p) => p.id === id) ?? null;
+  }
+
+  create(data: Omit<Profile, 'id'>): Profile {
+    const profile = { ...data, id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}` };
+    this.write([...this.list(), profile]);
+    return profile;
+  }
+
+  update(id: string, patch: Partial<Omit<Profile, 'id'>>) {
+    this.write(this.list().map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  }
+
+  // Removes the profile and everything stored under its scope
+  remove(id: string) {
+    this.write(this.list().filter((p) => p.id !== id));
+    try {
+      const prefix = `agp:profile:${id}:`;
+      const stale: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const k = localStorage.key(i);
+        if (k?.startsWith(prefix)) stale.push(k);
+      }
+      stale.forEach((k) => localStorage.removeItem(k));
+    } catch {}
+  }
+
+  subscribe(fn: () => void) {
+    this.listeners.add(fn);
+    return () => this.listeners.delete(fn);
+  }
+
+  persist() {
+    if (!this.config.getConsent()) return;
+    try {
+      localStorage.setItem(this.key, JSON.stringify(this.profiles));
+    } catch {}
+  }
+
+  private write(list: Profile[]) {
+    this.profiles = list;
+    this.persist();
+    for (const fn of this.listeners) fn();
+  }
+}
@@ -0,0 +1,98 @@
+export type RouteView = 'home' | 'game' | 'profiles' | 'progress' | 'controls';
+
+export type Route = {
+  view: RouteView;
+  gameId?: string;
+  settings?: boolean; // game opened on its settings panel
+  profile?: string; // learner id or name to switch to
+  preset?: string; // preset to apply to the game
+};
+
+const PAGES: RouteView[] = ['profiles', 'progress', 'controls'];
+
+const decode = (s: string) => {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+};
+
+/** `#/game/target-collection/settings?profile=sam` → a Route; anything unknown is home. */
+export function parseRoute(hash: string): Route {
+  const [path = '', query = ''] = hash.replace(/^#/, '').split('?');
+  const [first, id, sub] = path.split('/').filter(Boolean).map(decode);
+  const params = new URLSearchParams(query);
+  const route: Route =
+    first === 'game' && id
+      ? { view: 'game', gameId: id, ...(sub === 'settings' ? { settings: true } : {}) }
+      : PAGES.includes(first as RouteView)
+        ? { view: first as RouteView }
+        : { view: 'home' };
+  const profile = params.get('profile');
+  const preset = params.get('preset');
+  if (profile) route.profile = profile;
+  if (preset) route.preset = preset;
+  return route;
+}
+
+export function formatRoute(route: Route): string {
+  let path = '/';
+  if (route.view === 'game' && route.gameId) {
+    path = `/game/${encodeURIComponent(route.gameId)}${route.settings ? '/settings' : ''}`;
+  } else if (route.view !== 'home' && route.view !== 'game') {
+    path = `/${route.view}`;
+  }
+  const params = new URLSearchParams();
+  if (route.profile) params.set('profile', route.profile);
+  if (route.preset) params.set('preset', route.preset);
+  const query = params.toString();
+  return `#${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Keeps the current view in the URL hash, so it works from a static file,
+ * views can be bookmarked and the browser's back button moves between them.
+ */
+export class Router {
+  private listeners = new Set<(route: Route) => void>();
+  private last = location.hash;
+
+  current(): Route {
+    return parseRoute(location.hash);
+  }
+  // true when the page was opened with a route of its own
+  hasRoute() {
+    return location.hash.length > 1;
+  }
+
+  navigate(route: Route, { replace = false } = {}) {
+    const hash = formatRoute(route);
+    if (hash === location.hash) return;
+    if (replace) history.replaceState(history.state, '', hash);
+    else history.pushState(null, '', hash);
+    this.changed();
+  }
+
+  subscribe(cb: (route: Route) => void) {
+    this.listeners.add(cb);
+    return () => this.listeners.delete(cb);
+  }
+
+  // Back/forward and hand-edited URLs
+  attach(win: Window = window) {
+    win.addEventListener('hashchange', this.changed);
+    win.addEventListener('popstate', this.changed);
+    return () => {
+      win.removeEventListener('hashchange', this.changed);
+      win.removeEventListener('popstate', this.changed);
+    };
+  }
+
+  private changed = () => {
+    if (location.hash === this.last) return;
+    this.last = location.hash;
+    const route = this.current();
+    for (const l of this.listeners) l(route);
+  };
+}
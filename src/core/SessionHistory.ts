@@ -0,0 +1,42 @@
+import type { SessionRecord } from '../types/game';
+import { ConfigManager } from './ConfigManager';
+
+const MAX_SESSIONS_PER_GAME = 500;
+
+/** Local performance history for the profile the ConfigManager is scoped to. */
+export class SessionHistory {
+  constructor(private config: ConfigManager) {}
+
+  list(gameId: string): SessionRecord[] {
+    const raw = this.config.getEntry(`history:${gameId}`);
+    return Array.isArray(raw) ? (raw as SessionRecord[]) : [];
+  }
+
+  // All games with recorded sessions, newest session last
+  listAll(): SessionRecord[] {
+    const out: SessionRecord[] = [];
+    for (const [name, value] of Object.entries(this.config.entries())) {
+      if (name.startsWith('history:') && Array.isArray(value)) out.push(...(value as SessionRecord[]));
+    }
+    return out.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  add(record: Omit<SessionRecord, 'id'>) {
+    // history is personal data: only kept with storage consent
+    if (!this.config.getConsent()) return null;
+    const full: SessionRecord = { ...record, id: `${record.startedAt.toString(36)}${Math.random().toString(36).slice(2, 6)}` };
+    const next = [...this.list(record.gameId), full].slice(-MAX_SESSIONS_PER_GAME);
+    this.config.setEntry(`history:${record.gameId}`, next);
+    return full;
+  }
+
+  clear(gameId?: string) {
+    if (gameId) {
+      this.config.removeEntry(`history:${gameId}`);
+      return;
+    }
+    for (const name of Object.keys(this.config.entries())) {
+      if (name.startsWith('history:')) this.config.removeEntry(name);
+    }
+  }
+}
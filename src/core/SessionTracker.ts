@@ -0,0 +1,134 @@
+import type { SessionMetrics } from '../types/game';
+
+type Point = { x: number; y: number };
+
+// One target, from being shown to being collected
+export type TargetLeg = { timeMs: number; misses: number; overshoots: number; dwellAbandons: number };
+
+/**
+ * Accumulates the standard session metrics while a game runs. Games call the
+ * event methods; paused time is excluded from time-to-target and active time.
+ */
+export class SessionTracker {
+  private hits = 0;
+  private misses = 0;
+  private dwellAbandons = 0;
+  private pauses = 0;
+  private totalTimeMs = 0;
+  private efficiencies: number[] = [];
+  private running = false;
+  private paused = false;
+  private pausedAt: number | null = null;
+  private startedAt: number | null = null;
+  private pausedTotalMs = 0;
+  // current target leg
+  private shownAt: number | null = null;
+  private pausedInLegMs = 0;
+  private straight = 0;
+  private travelled = 0;
+  private last: Point | null = null;
+  private leg = { misses: 0, overshoots: 0, dwellAbandons: 0 };
+
+  start(now = performance.now()) {
+    this.clearCounters();
+    this.running = true;
+    this.startedAt = now;
+    // a target placed before play begins is timed from the start
+    this.shownAt = now;
+    this.pausedInLegMs = 0;
+    this.leg = { misses: 0, overshoots: 0, dwellAbandons: 0 };
+  }
+
+  pause(now = performance.now()) {
+    if (!this.running || this.paused) return;
+    this.paused = true;
+    this.pausedAt = now;
+    this.pauses++;
+  }
+
+  resume(now = performance.now()) {
+    if (!this.paused) return;
+    this.paused = false;
+    if (this.pausedAt != null) {
+      this.pausedInLegMs += now - this.pausedAt;
+      this.pausedTotalMs += now - this.pausedAt;
+    }
+    this.pausedAt = null;
+  }
+
+  reset() {
+    this.clearCounters();
+    this.running = false;
+    this.startedAt = null;
+    this.shownAt = null;
+    this.straight = 0;
+    this.last = null;
+  }
+
+  private clearCounters() {
+    this.hits = this.misses = this.dwellAbandons = this.pauses = 0;
+    this.totalTimeMs = 0;
+    this.pausedTotalMs = 0;
+    this.efficiencies = [];
+    this.paused = false;
+    this.pausedAt = null;
+  }
+
+  targetShown(from: Point, to: Point, now = performance.now()) {
+    this.shownAt = now;
+    this.pausedInLegMs = 0;
+    this.straight = Math.hypot(to.x - from.x, to.y - from.y);
+    this.travelled = 0;
+    this.last = { ...from };
+    this.leg = { misses: 0, overshoots: 0, dwellAbandons: 0 };
+  }
+
+  move(p: Point) {
+    if (!this.running || this.paused) return;
+    if (this.last) this.travelled += Math.hypot(p.x - this.last.x, p.y - this.last.y);
+    this.last = { ...p };
+  }
+
+  // Returns the finished leg, for adaptive difficulty
+  hit(now = performance.now()): TargetLeg | null {
+    if (!this.running) return null;
+    this.hits++;
+    const timeMs = this.shownAt != null ? Math.max(0, now - this.shownAt - this.pausedInLegMs) : 0;
+    this.totalTimeMs += timeMs;
+    if (this.straight > 0 && this.travelled > 0) this.efficiencies.push(Math.min(1, this.straight / this.travelled));
+    this.shownAt = null;
+    this.straight = 0;
+    return { timeMs, ...this.leg };
+  }
+
+  miss() {
+    if (!this.running || this.paused) return;
+    this.misses++;
+    this.leg.misses++;
+  }
+
+  // The cursor left the target without collecting it; not part of the session metrics
+  overshoot() {
+    if (this.running && !this.paused) this.leg.overshoots++;
+  }
+
+  dwellAbandon() {
+    if (!this.running || this.paused) return;
+    this.dwellAbandons++;
+    this.leg.dwellAbandons++;
+  }
+
+  snapshot(now = performance.now()): SessionMetrics {
+    const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+    const until = this.pausedAt ?? now;
+    return {
+      activeMs: this.startedAt != null ? Math.max(0, until - this.startedAt - this.pausedTotalMs) : 0,
+      targetsCollected: this.hits,
+      meanTimeToTargetMs: this.hits ? this.totalTimeMs / this.hits : null,
+      pathEfficiency: mean(this.efficiencies),
+      misses: this.misses,
+      dwellAbandons: this.dwellAbandons,
+      pauses: this.pauses
+    };
+  }
+}
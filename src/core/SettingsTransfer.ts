@@ -0,0 +1,304 @@
+import type { GameConfig, GameDefinition } from '../types/game';
+import { PROFILE_COLORS, PROFILE_ICONS, type Profile, type ProfileIcon } from './ProfileManager';
+import { sanitizeCalibration, sanitizeDevices, type ScanSettings } from './InputManager';
+import { DEFAULT_BINDINGS, sanitizeBindings } from './InputBindings';
+import { sanitizeFilter } from './InputFilter';
+import { sanitizeDwell } from './DwellManager';
+import { sanitizePresets } from './PresetLibrary';
+import { sanitizeAdaptive, sanitizeLog } from './AdaptiveDifficulty';
+import { ConfigManager, migrateConfig, validateConfig } from './ConfigManager';
+
+export const EXPORT_FORMAT = 'agp-settings';
+export const EXPORT_VERSION = 1;
+
+export type SettingsExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: Omit<Profile, 'id'> | null;
+  consent: boolean;
+  entries: Record<string, unknown>;
+  checksum: string;
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+export type ParsedImport = {
+  profile: Omit<Profile, 'id'> | null;
+  consent: boolean;
+  exportedAt: string;
+  entries: Record<string, unknown>; // validated, ready to write
+  notes: Record<string, string>; // per entry: repaired fields or why it was skipped
+};
+
+export type ImportChange = {
+  name: string;
+  label: string;
+  kind: 'added' | 'changed' | 'removed' | 'unchanged' | 'skipped';
+  note?: string;
+};
+
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(',')}]`;
+  if (v && typeof v === 'object') {
+    const o = v as Record<string, unknown>;
+    // skip undefined like JSON.stringify so a round-tripped file hashes the same
+    return `{${Object.keys(o)
+      .filter((k) => o[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(o[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(v) ?? 'null';
+}
+
+// FNV-1a: catches truncated or hand-edited files, not deliberate tampering
+export function checksum(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+export function exportSettings(config: ConfigManager, profile: Profile | null): SettingsExport {
+  const body = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile ? { name: profile.name, color: profile.color, icon: profile.icon } : null,
+    consent: config.getConsent(),
+    entries: config.entries()
+  } as const;
+  return { ...body, checksum: checksum(stableStringify(body)) };
+}
+
+export function entryLabel(name: string, games: GameDefinition[]) {
+  const m = name.match(/^settings:(.+):(\d+)$/);
+  if (m) return `${games.find((g) => g.id === m[1])?.name ?? m[1]} settings`;
+  const h = name.match(/^history:(.+)$/);
+  if (h) return `${games.find((g) => g.id === h[1])?.name ?? h[1]} history`;
+  const p = name.match(/^presets:(.+)$/);
+  if (p) return `${games.find((g) => g.id === p[1])?.name ?? p[1]} presets`;
+  const a = name.match(/^adaptive:(.+)$/);
+  if (a) return `${games.find((g) => g.id === a[1])?.name ?? a[1]} adaptive difficulty`;
+  if (name === 'theme') return 'Theme';
+  if (name === 'calibration') return 'Input calibration';
+  if (name === 'scanning') return 'Switch scanning';
+  if (name === 'bindings') return 'Keys and buttons';
+  if (name === 'filter') return 'Tremor filter';
+  if (name === 'devices') return 'Gamepad devices';
+  if (name === 'dwell') return 'Dwell click';
+  return name;
+}
+
+const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Numbers end up in the printed report and the progress charts
+function validMetrics(m: Record<string, unknown>) {
+  const counts = ['targetsCollected', 'misses', 'dwellAbandons', 'pauses'].every((k) => finite(m[k]));
+  return counts && [m.meanTimeToTargetMs, m.pathEfficiency, m.activeMs].every((v) => v == null || finite(v));
+}
+
+// A learner needs a name to be picked; an unknown colour or icon falls back like a new profile's
+function validProfile(raw: unknown): Omit<Profile, 'id'> | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const p = raw as Record<string, unknown>;
+  const name = typeof p.name === 'string' ? p.name.trim() : '';
+  if (!name) return null;
+  const color = PROFILE_COLORS.find((c) => c.value === p.color)?.value ?? PROFILE_COLORS[0].value;
+  const icon = PROFILE_ICONS.find((i) => i === p.icon);
+  return icon ? { name, color, icon } : { name, color };
+}
+
+// `name` is set when the entry is stored under a different key, e.g. settings upgraded to the current version
+function validateEntry(
+  name: string,
+  value: unknown,
+  games: GameDefinition[]
+): { name?: string; value?: unknown; note?: string } {
+  const m = name.match(/^settings:(.+):(\d+)$/);
+  if (m) {
+    const game = games.find((g) => g.id === m[1]);
+    if (!game) return { note: 'Unknown game, skipped' };
+    const version = Number(m[2]);
+    if (version > game.configSchema.version) return { note: 'Made by a newer version, skipped' };
+    // upgraded now: the game would read a current-version key it already has instead
+    if (version < game.configSchema.version) {
+      const stale = value && typeof value === 'object' && !Array.isArray(value) ? (value as GameConfig) : {};
+      try {
+        const migrated = migrateConfig(stale, version, game.configSchema.version, game.migrations ?? []);
+        return {
+          name: `settings:${game.id}:${game.configSchema.version}`,
+          value: validateConfig(game.configSchema, migrated).config,
+          note: `Upgraded from version ${version}`
+        };
+      } catch {
+        return { note: 'Invalid, skipped' };
+      }
+    }
+    const { config, repaired } = validateConfig(game.configSchema, value);
+    return { value: config, note: repaired.length ? `Repaired: ${repaired.join(', ')}` : undefined };
+  }
+  if (name.startsWith('history:')) {
+    if (!Array.isArray(value)) return { note: 'Invalid, skipped' };
+    const sessions = value.filter(
+      (r) =>
+        r &&
+        typeof r.id === 'string' && // merging matches sessions by id
+        finite(r.startedAt) &&
+        finite(r.endedAt) &&
+        r.metrics &&
+        typeof r.metrics === 'object' &&
+        validMetrics(r.metrics)
+    );
+    const dropped = value.length - sessions.length;
+    return { value: sessions, note: dropped ? `${dropped} damaged sessions skipped` : undefined };
+  }
+  if (name.startsWith('presets:')) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    const saved = (value as { saved?: unknown }).saved;
+    const clean = sanitizePresets(value);
+    const dropped = Array.isArray(saved) ? saved.length - clean.saved.length : 0;
+    return { value: clean, note: dropped ? `${dropped} damaged presets skipped` : undefined };
+  }
+  const adaptive = name.match(/^adaptive:(.+)$/);
+  if (adaptive) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    const log = (value as { log?: unknown }).log;
+    const schema = games.find((g) => g.id === adaptive[1])?.configSchema;
+    const clean = sanitizeLog(log);
+    const dropped = Array.isArray(log) ? log.length - clean.length : 0;
+    return {
+      value: { ...sanitizeAdaptive(value, schema), log: clean },
+      note: dropped > 0 ? `${dropped} damaged adjustments skipped` : undefined
+    };
+  }
+  if (name === 'theme') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    return Object.values(value).every((v) => typeof v === 'boolean') ? { value } : { note: 'Invalid, skipped' };
+  }
+  if (name === 'calibration') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    // sanitizing also upgrades calibrations saved before per-axis dead zones
+    return { value: sanitizeCalibration(value) };
+  }
+  if (name === 'scanning') {
+    const v = value as Partial<ScanSettings> | null;
+    const ok =
+      !!v &&
+      typeof v === 'object' &&
+      ['off', 'one-switch', 'two-switch'].includes(String(v.mode)) &&
+      Number.isFinite(v.rateMs) &&
+      Number.isFinite(v.longPressMs);
+    return ok ? { value } : { note: 'Invalid, skipped' };
+  }
+  if (name === 'filter') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    return { value: sanitizeFilter(value) };
+  }
+  if (name === 'devices') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    return { value: sanitizeDevices(value) };
+  }
+  if (name === 'dwell') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    return { value: sanitizeDwell(value) };
+  }
+  if (name === 'bindings') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { note: 'Invalid, skipped' };
+    const clean = sanitizeBindings(value);
+    const repaired = stableStringify(clean) !== stableStringify({ ...DEFAULT_BINDINGS, ...value });
+    return { value: clean, note: repaired ? 'Repaired damaged bindings' : undefined };
+  }
+  return { note: 'Unknown, skipped' };
+}
+
+/** Parses and validates an exported file. Throws an Error with a user-facing message. */
+export function parseSettings(text: string, games: GameDefinition[]): ParsedImport {
+  let doc: Partial<SettingsExport>;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a settings export.');
+  }
+  if (!doc || doc.format !== EXPORT_FORMAT || typeof doc.entries !== 'object' || !doc.entries) {
+    throw new Error('This file is not a settings export.');
+  }
+  if (typeof doc.version !== 'number' || doc.version > EXPORT_VERSION) {
+    throw new Error('This file was made by a newer version of the app.');
+  }
+  const { checksum: sum, ...body } = doc;
+  if (sum !== checksum(stableStringify(body))) {
+    throw new Error('This file is damaged or has been edited.');
+  }
+
+  const entries: Record<string, unknown> = {};
+  const notes: Record<string, string> = {};
+  for (const [name, raw] of Object.entries(doc.entries)) {
+    const { name: target = name, value, note } = validateEntry(name, raw, games);
+    if (target !== name && target in doc.entries) {
+      notes[name] = 'Newer settings in this file used instead';
+      continue;
+    }
+    if (value !== undefined) entries[target] = value;
+    if (note) notes[target] = note;
+  }
+  return {
+    profile: validProfile(doc.profile),
+    consent: doc.consent === true,
+    exportedAt: String(doc.exportedAt ?? ''),
+    entries,
+    notes
+  };
+}
+
+export function previewImport(
+  parsed: ParsedImport,
+  config: ConfigManager,
+  mode: ImportMode,
+  games: GameDefinition[]
+): ImportChange[] {
+  const current = config.entries();
+  const changes: ImportChange[] = [];
+  const names = new Set([...Object.keys(parsed.entries), ...Object.keys(parsed.notes)]);
+  for (const name of names) {
+    const label = entryLabel(name, games);
+    const note = parsed.notes[name];
+    if (!(name in parsed.entries)) {
+      changes.push({ name, label, kind: 'skipped', note });
+    } else if (!(name in current)) {
+      changes.push({ name, label, kind: 'added', note });
+    } else {
+      const same = stableStringify(current[name]) === stableStringify(parsed.entries[name]);
+      changes.push({ name, label, kind: same ? 'unchanged' : 'changed', note });
+    }
+  }
+  if (mode === 'replace') {
+    for (const name of Object.keys(current)) {
+      if (!(name in parsed.entries)) changes.push({ name, label: entryLabel(name, games), kind: 'removed' });
+    }
+  }
+  return changes;
+}
+
+export function applyImport(parsed: ParsedImport, config: ConfigManager, mode: ImportMode) {
+  if (mode === 'replace') {
+    for (const name of Object.keys(config.entries())) {
+      if (!(name in parsed.entries)) config.removeEntry(name);
+    }
+  }
+  for (const [name, value] of Object.entries(parsed.entries)) {
+    const existing = config.getEntry(name);
+    if (mode === 'merge' && name.startsWith('history:') && Array.isArray(existing)) {
+      // keep sessions recorded on both machines
+      const byId = new Map<unknown, { startedAt: number }>();
+      for (const r of [...existing, ...(value as { id: unknown; startedAt: number }[])]) byId.set(r.id, r);
+      config.setEntry(name, [...byId.values()].sort((a, b) => a.startedAt - b.startedAt));
+    } else {
+      config.setEntry(name, value);
+    }
+  }
+  if (parsed.consent) config.setConsent(true);
+}
@@ -1,3 +1,7 @@
+export type ThemeSettings = { highContrast: boolean; reducedMotion: boolean };
+
+export const DEFAULT_THEME: ThemeSettings = { highContrast: false, reducedMotion: false };
+
 export class ThemeManager {
   setHighContrast(on: boolean) {
     document.documentElement.setAttribute('data-high-contrast', on ? 'on' : 'off');
@@ -12,4 +16,12 @@ export class ThemeManager {
   isReducedMotion(): boolean {
     return getComputedStyle(document.documentElement).getPropertyValue('--reduced-motion') === '1';
   }
+
+  getSettings(): ThemeSettings {
+    return { highContrast: this.isHighContrast(), reducedMotion: this.isReducedMotion() };
+  }
+  apply(settings: ThemeSettings) {
+    this.setHighContrast(settings.highContrast);
+    this.setReducedMotion(settings.reducedMotion);
+  }
 }
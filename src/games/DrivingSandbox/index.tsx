@@ -1,11 +1,26 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import type { GameDefinition, GameConfigSchema, AccessibilityFeature, IGame, GameState, GameConfig } from '../../types/game';
+import type {
+  GameDefinition,
+  GameConfigSchema,
+  AccessibilityFeature,
+  IGame,
+  GameState,
+  GameConfig,
+  SessionMetrics,
+  GamePreset
+} from '../../types/game';
 import { AccessibilityManager } from '../../core/AccessibilityManager';
 import { InputManager } from '../../core/InputManager';
-import { SettingsGroup } from '../../shared/components/settings/SettingsGroup';
-import { SettingsRow } from '../../shared/components/settings/SettingsRow';
-import { useGameLoop } from '../../shared/hooks/useGameLoop';
+import type { PresetLibrary } from '../../core/PresetLibrary';
+import { ConfigManager, defaultsFor, validateConfig } from '../../core/ConfigManager';
+import { SchemaSettings } from '../../shared/components/settings/SchemaSettings';
+import { VirtualJoystick } from '../../shared/components/VirtualJoystick';
+import { useGameEngine } from '../../shared/hooks/useGameEngine';
+import { useGameEvent } from '../../shared/hooks/useGameEvent';
 import { useDeviceInput } from '../../shared/hooks/useDeviceInput';
+import { useGameConfig } from '../../shared/hooks/useGameConfig';
+import { SessionTracker } from '../../core/SessionTracker';
+import { GameEngine } from '../../core/GameEngine';
 
 // Simple driver to test keyboard/gamepad input in an open field.
 
@@ -24,21 +39,81 @@ const PALETTE = [
 const schema: GameConfigSchema = {
   version: 3,
   properties: {
-    speedMult: { type: 'number', min: 1, max: 6 },
-    turnDegPerSec: { type: 'number', min: 20, max: 140 },
-    friction: { type: 'number', min: 0, max: 0.2 },
-    wrapEdges: { type: 'boolean' },
-    showGrid: { type: 'boolean' },
-    vehicleShape: { type: 'string' },
-    vehicleSize: { type: 'number', min: 24, max: 120 },
-    paletteIndex: { type: 'number', min: 0, max: PALETTE.length - 1 },
-    accel: { type: 'number', min: 200, max: 1200 },
-    decel: { type: 'number', min: 300, max: 1500 },
-    turnInPlaceDegPerSec: { type: 'number', min: 120, max: 360 },
-    reverseFactor: { type: 'number', min: 0.2, max: 0.6 }
+    speedMult: { type: 'number', default: 3, min: 1, max: 6, step: 1, label: 'Movement speed', group: 'Movement', format: (v) => `x${v}` },
+    turnDegPerSec: { type: 'number', default: 90, min: 20, max: 140, step: 2, label: 'Turn rate', group: 'Movement', unit: '°/s' },
+    turnInPlaceDegPerSec: {
+      type: 'number',
+      default: 220,
+      min: 120,
+      max: 360,
+      step: 5,
+      label: 'Turn-in-place rate',
+      group: 'Movement',
+      unit: '°/s'
+    },
+    accel: { type: 'number', default: 650, min: 200, max: 1200, step: 25, label: 'Acceleration', group: 'Movement', unit: 'px/s²' },
+    decel: { type: 'number', default: 950, min: 300, max: 1500, step: 25, label: 'Deceleration', group: 'Movement', unit: 'px/s²' },
+    reverseFactor: {
+      type: 'number',
+      default: 0.4,
+      min: 0.2,
+      max: 0.6,
+      step: 0.05,
+      label: 'Reverse factor',
+      group: 'Movement',
+      format: (v) => `${(v * 100).toFixed(0)}% of forward`
+    },
+    friction: { type: 'number', default: 0.12, min: 0, max: 0.2, step: 0.01, label: 'Friction', group: 'Movement', format: (v) => v.toFixed(2) },
+    vehicleShape: {
+      type: 'string',
+      default: 'car',
+      label: 'Vehicle shape',
+      group: 'Appearance',
+      options: [
+        { value: 'car', label: 'Car' },
+        { value: 'rectangle', label: 'Rectangle' }
+      ]
+    },
+    vehicleSize: { type: 'number', default: 44, min: 24, max: 120, step: 2, label: 'Vehicle size', group: 'Appearance', unit: 'px' },
+    paletteIndex: {
+      type: 'number',
+      default: 0,
+      min: 0,
+      max: PALETTE.length - 1,
+      label: 'Palette',
+      group: 'Appearance',
+      options: PALETTE.map((p, i) => ({ value: i, label: p.name }))
+    },
+    wrapEdges: { type: 'boolean', default: false, label: 'Wrap at edges', group: 'World' },
+    showGrid: { type: 'boolean', default: true, label: 'Show grid', group: 'World' }
   }
 };
 
+const presets: GamePreset[] = [
+  {
+    id: 'powerchair-trainer',
+    name: 'Powerchair trainer',
+    description: 'Slow, steady acceleration and firm braking, like a powered wheelchair.',
+    config: {
+      speedMult: 2,
+      accel: 400,
+      decel: 1200,
+      turnDegPerSec: 60,
+      turnInPlaceDegPerSec: 140,
+      reverseFactor: 0.3,
+      friction: 0.15,
+      vehicleShape: 'rectangle',
+      vehicleSize: 60
+    }
+  },
+  {
+    id: 'gentle-turning',
+    name: 'Gentle turning',
+    description: 'Slow turns for learners who overshoot.',
+    config: { speedMult: 2, turnDegPerSec: 40, turnInPlaceDegPerSec: 120 }
+  }
+];
+
 type DSConfig = {
   speedMult: number; // 1..10 scales base speed
   turnDegPerSec: number; // degrees/sec at full steer
@@ -54,62 +129,32 @@ type DSConfig = {
   reverseFactor: number; // 0.2..0.6 max reverse vs forward
 };
 
-const defaultCfg: DSConfig = {
-  speedMult: 3,
-  turnDegPerSec: 90,
-  friction: 0.12,
-  wrapEdges: false,
-  showGrid: true,
-  vehicleShape: 'car',
-  vehicleSize: 44,
-  paletteIndex: 0,
-  accel: 650,
-  decel: 950,
-  turnInPlaceDegPerSec: 220,
-  reverseFactor: 0.4
-};
-
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-function sanitize(raw?: Partial<DSConfig>): DSConfig {
-  const r = raw ?? {};
-  return {
-  speedMult: clamp(Number((r as any).speedMult ?? defaultCfg.speedMult), 1, 6),
-  turnDegPerSec: clamp(Number((r as any).turnDegPerSec ?? defaultCfg.turnDegPerSec), 20, 140),
-    friction: clamp(Number((r as any).friction ?? defaultCfg.friction), 0, 0.2),
-    wrapEdges: (r as any).wrapEdges !== undefined ? Boolean((r as any).wrapEdges) : defaultCfg.wrapEdges,
-    showGrid: (r as any).showGrid !== undefined ? Boolean((r as any).showGrid) : defaultCfg.showGrid,
-    vehicleShape: ['car', 'rectangle'].includes((r as any).vehicleShape)
-      ? ((r as any).vehicleShape as DSConfig['vehicleShape'])
-      : defaultCfg.vehicleShape,
-    vehicleSize: clamp(Number((r as any).vehicleSize ?? defaultCfg.vehicleSize), 24, 120),
-  paletteIndex: clamp(Number((r as any).paletteIndex ?? defaultCfg.paletteIndex), 0, PALETTE.length - 1),
-  accel: clamp(Number((r as any).accel ?? defaultCfg.accel), 200, 1200),
-  decel: clamp(Number((r as any).decel ?? defaultCfg.decel), 300, 1500),
-  turnInPlaceDegPerSec: clamp(Number((r as any).turnInPlaceDegPerSec ?? defaultCfg.turnInPlaceDegPerSec), 120, 360),
-  reverseFactor: clamp(Number((r as any).reverseFactor ?? defaultCfg.reverseFactor), 0.2, 0.6)
-  };
-}
-
 class DrivingSandboxGame implements IGame {
   id = 'driving-sandbox';
   name = 'Driving Sandbox';
-  description = 'Open field to test driving with keyboard or gamepad.';
+  description = 'Open field to test driving with keyboard, gamepad or touch.';
   category = 'motor' as const;
   configSchema = schema;
   accessibilityFeatures: AccessibilityFeature[] = ['keyboardSupport', 'gamepadSupport', 'highContrast', 'reducedMotion'];
 
-  private state: GameState = { started: false, paused: false, score: 0, timestamp: 0 };
-  initialize(_config: GameConfig): void {}
-  start(): void { this.state.started = true; this.state.paused = false; }
-  pause(): void { this.state.paused = true; }
-  resume(): void { this.state.paused = false; }
-  reset(): void { this.state = { started: false, paused: false, score: 0, timestamp: 0 }; }
-  cleanup(): void {}
-  getState(): GameState { return this.state; }
-  updateConfig(_config: Partial<GameConfig>): void {}
+  readonly engine = new GameEngine();
+  // No targets here; sessions still record duration and pauses
+  readonly session = new SessionTracker();
+  private cfg = defaultsFor<DSConfig>(schema);
+  initialize(config: GameConfig): void { this.cfg = validateConfig<DSConfig>(schema, config).config; this.engine.run(); }
+  start(): void { this.engine.start(); this.session.start(); }
+  pause(): void { this.engine.pause(); this.session.pause(); }
+  resume(): void { this.engine.resume(); this.session.resume(); }
+  reset(): void { this.engine.reset(); this.session.reset(); }
+  cleanup(): void { this.engine.stop(); }
+  getState(): GameState { return this.engine.getState(); }
+  getMetrics(): SessionMetrics { return this.session.snapshot(); }
+  updateConfig(config: Partial<GameConfig>): void { this.cfg = validateConfig<DSConfig>(schema, { ...this.cfg, ...config }).config; }
+  getConfig(): DSConfig { return { ...this.cfg }; }
 }
 
 function CarShape({ color, shape, size }: { color: string; shape: 'car' | 'rectangle'; size: number }) {
@@ -133,27 +178,38 @@ function CarShape({ color, shape, size }: { color: string; shape: 'car' | 'recta
   );
 }
 
-function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager; input: InputManager } }) {
-  const [cfg, setCfg] = useState<DSConfig>(() => sanitize({}));
+function DrivingComponent({
+  managers,
+  game,
+  presets
+}: {
+  managers: { a11y: AccessibilityManager; input: InputManager; config: ConfigManager };
+  game: IGame | null;
+  presets?: PresetLibrary | null;
+}) {
+  const [cfg, setCfg, resetCfg] = useGameConfig<DSConfig>(
+    managers.config,
+    'driving-sandbox',
+    schema,
+    undefined,
+    game?.engine.events
+  );
   const cfgRef = useRef(cfg);
   useEffect(() => { cfgRef.current = cfg; }, [cfg]);
 
   const stageRef = useRef<HTMLDivElement>(null);
-  const [paused, setPaused] = useState(true);
-  const pausedRef = useRef(paused);
-  useEffect(() => { pausedRef.current = paused; }, [paused]);
 
   // Vehicle state
   const pos = useRef({ x: 0, y: 0 });
   const heading = useRef(0); // radians, 0 -> +X (to right)
   const speed = useRef(0); // px/s
   const carRef = useRef<HTMLDivElement>(null);
-  const smooth = useRef({ steer: 0, throttle: 0 });
   const prevTargetsRef = useRef({ steer: 0, throttle: 0 });
   const holdRef = useRef<{ steer: number; steerUntil: number; throttle: number; throttleUntil: number }>({ steer: 0, steerUntil: 0, throttle: 0, throttleUntil: 0 });
 
   // Input
   const { vector, sourceRef } = useDeviceInput(managers.input);
+  const touchScreen = useMemo(() => !!window.matchMedia?.('(any-pointer: coarse)').matches, []);
 
   // Init position on mount and on resize
   useEffect(() => {
@@ -174,17 +230,26 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
     placeCenter();
     const onResize = () => placeCenter();
     window.addEventListener('resize', onResize);
-    return () => window.removeEventListener('resize', onResize);
-  }, []);
+    const unsub = managers.input.onAction((action) => {
+      if (action !== 'recenter') return;
+      placeCenter();
+      managers.a11y.announce('Vehicle recentered');
+    });
+    // touch screens and pointers drive with an on-screen joystick
+    const detach = stageRef.current ? managers.input.attachStage(stageRef.current, { mode: 'joystick' }) : null;
+    return () => {
+      window.removeEventListener('resize', onResize);
+      unsub();
+      detach?.();
+    };
+  }, [managers.input, managers.a11y]);
 
-  useGameLoop((dtMs) => {
-    if (pausedRef.current) return;
-    const dt = Math.min(50, dtMs) / 1000; // seconds
+  const update = (dtMs: number) => {
+    const dt = dtMs / 1000; // seconds
 
-    // Only use keyboard/gamepad for driving, ignore pointer
-  const targetSteer = sourceRef.current === 'pointer' ? 0 : clamp(vector.x, -1, 1);
-  // Invert Y so Up (y=-1) means forward throttle
-  const targetThrottle = sourceRef.current === 'pointer' ? 0 : clamp(-vector.y, -1, 1);
+    const targetSteer = clamp(vector.x, -1, 1);
+    // Invert Y so Up (y=-1) means forward throttle
+    const targetThrottle = clamp(-vector.y, -1, 1);
 
     // Keyboard combo hold to mitigate matrix ghosting on arrow/WASD
     const now = performance.now();
@@ -205,22 +270,9 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
     prevTargetsRef.current.steer = targetSteer;
     prevTargetsRef.current.throttle = targetThrottle;
 
-    // Smooth inputs to avoid jerkiness (only for gamepad). Keyboard uses instantaneous targets or held values.
-    let steer: number;
-    let throttle: number;
-    if (sourceRef.current === 'gamepad') {
-      const smoothingPerSec = 10; // higher = snappier
-      const a = 1 - Math.exp(-smoothingPerSec * dt);
-      smooth.current.steer += (targetSteer - smooth.current.steer) * a;
-      smooth.current.throttle += (targetThrottle - smooth.current.throttle) * a;
-      steer = smooth.current.steer;
-      throttle = smooth.current.throttle;
-    } else {
-      steer = kbSteer;
-      throttle = kbThrottle;
-      smooth.current.steer = steer;
-      smooth.current.throttle = throttle;
-    }
+    // Gamepad input arrives already filtered by the InputManager
+    const steer = kbSteer;
+    const throttle = kbThrottle;
 
     const baseMax = 160; // px/s base max speed
     const maxFwd = baseMax * cfgRef.current.speedMult;
@@ -281,25 +333,16 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
     if (el) {
       el.style.transform = `translate(${pos.current.x - w / 2}px, ${pos.current.y - h / 2}px) rotate(${(heading.current * 180) / Math.PI}deg)`;
     }
-  }, true);
+  };
 
-  // Listen for shell state changes (play/pause/reset)
-  useEffect(() => {
-    const onState = (e: Event) => {
-      const detail = (e as CustomEvent).detail as { action: string; id: string };
-      if (detail?.id !== 'driving-sandbox') return;
-  if (detail.action === 'start' || detail.action === 'resume') setPaused(false);
-      if (detail.action === 'pause') setPaused(true);
-      if (detail.action === 'reset') {
-        setPaused(true);
-        const r = stageRef.current?.getBoundingClientRect();
-        if (r) { pos.current.x = r.width / 2; pos.current.y = r.height / 2; }
-        heading.current = 0; speed.current = 0;
-      }
-    };
-    window.addEventListener('game:state', onState as EventListener);
-    return () => window.removeEventListener('game:state', onState as EventListener);
-  }, []);
+  // Physics runs on the engine's fixed step while playing
+  const state = useGameEngine(game?.engine, { update });
+  useGameEvent(game?.engine.events, 'reset', () => {
+    const r = stageRef.current?.getBoundingClientRect();
+    if (r) { pos.current.x = r.width / 2; pos.current.y = r.height / 2; }
+    heading.current = 0; speed.current = 0;
+  });
+  const paused = !state.started || state.paused;
 
   // Visuals
   const palette = useMemo(() => PALETTE[cfg.paletteIndex]!, [cfg.paletteIndex]);
@@ -338,7 +381,6 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
           width: '100%', height: '100%', border: '4px solid var(--color-border)', borderRadius: 12,
           background: gridBackground, position: 'relative', overflow: 'hidden', touchAction: 'none', cursor: 'none'
         }}
-        onPointerDown={() => {/* pointer not used for driving */}}
       >
         {/* Vehicle (wrapper transformed imperatively for smoothness) */}
         <div
@@ -358,147 +400,20 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
           Speed: {speedAbs.toFixed(0)} px/s · Heading: {headingDeg.toFixed(0)}°
         </div>
 
+        <VirtualJoystick input={managers.input} hint={!paused && touchScreen ? 'Touch and drag anywhere to drive' : undefined} />
+
         {/* Config Panel */}
         {!paused ? null : (
-          <div className="tc-config" role="region" aria-label="Settings">
-            <SettingsGroup title="Movement">
-        <SettingsRow label="Movement speed">
-                <input
-                  type="range"
-          min={1}
-          max={6}
-                  step={1}
-                  value={cfg.speedMult}
-          style={{ ['--_filled' as any]: `${((cfg.speedMult - 1) / 5) * 100}%` }}
-                  title={`x${cfg.speedMult}`}
-                  onChange={(e) => setCfg({ ...cfg, speedMult: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Turn rate">
-                <input
-                  type="range"
-          min={20}
-          max={140}
-          step={2}
-                  value={cfg.turnDegPerSec}
-          style={{ ['--_filled' as any]: `${((cfg.turnDegPerSec - 20) / (140 - 20)) * 100}%` }}
-                  title={`${cfg.turnDegPerSec}°/s`}
-                  onChange={(e) => setCfg({ ...cfg, turnDegPerSec: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Turn-in-place rate">
-                <input
-                  type="range"
-                  min={120}
-                  max={360}
-                  step={5}
-                  value={cfg.turnInPlaceDegPerSec}
-                  style={{ ['--_filled' as any]: `${((cfg.turnInPlaceDegPerSec - 120) / (360 - 120)) * 100}%` }}
-                  title={`${cfg.turnInPlaceDegPerSec}°/s`}
-                  onChange={(e) => setCfg({ ...cfg, turnInPlaceDegPerSec: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Acceleration">
-                <input
-                  type="range"
-                  min={200}
-                  max={1200}
-                  step={25}
-                  value={cfg.accel}
-                  style={{ ['--_filled' as any]: `${((cfg.accel - 200) / (1200 - 200)) * 100}%` }}
-                  title={`${cfg.accel} px/s²`}
-                  onChange={(e) => setCfg({ ...cfg, accel: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Deceleration">
-                <input
-                  type="range"
-                  min={300}
-                  max={1500}
-                  step={25}
-                  value={cfg.decel}
-                  style={{ ['--_filled' as any]: `${((cfg.decel - 300) / (1500 - 300)) * 100}%` }}
-                  title={`${cfg.decel} px/s²`}
-                  onChange={(e) => setCfg({ ...cfg, decel: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Reverse factor">
-                <input
-                  type="range"
-                  min={0.2}
-                  max={0.6}
-                  step={0.05}
-                  value={cfg.reverseFactor}
-                  style={{ ['--_filled' as any]: `${((cfg.reverseFactor - 0.2) / (0.6 - 0.2)) * 100}%` }}
-                  title={`${(cfg.reverseFactor * 100).toFixed(0)}% of forward`}
-                  onChange={(e) => setCfg({ ...cfg, reverseFactor: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Friction">
-                <input
-                  type="range"
-                  min={0}
-                  max={0.2}
-                  step={0.01}
-                  value={cfg.friction}
-                  style={{ ['--_filled' as any]: `${(cfg.friction / 0.2) * 100}%` }}
-                  title={`${cfg.friction.toFixed(2)}`}
-                  onChange={(e) => setCfg({ ...cfg, friction: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-            </SettingsGroup>
-            
-            <SettingsGroup title="Appearance">
-              <SettingsRow label="Vehicle shape">
-                <select
-                  value={cfg.vehicleShape}
-                  onChange={(e) => setCfg({ ...cfg, vehicleShape: e.currentTarget.value as DSConfig['vehicleShape'] })}
-                >
-                  <option value="car">Car</option>
-                  <option value="rectangle">Rectangle</option>
-                </select>
-              </SettingsRow>
-              <SettingsRow label="Vehicle size">
-                <input
-                  type="range"
-                  min={24}
-                  max={120}
-                  step={2}
-                  value={cfg.vehicleSize}
-                  style={{ ['--_filled' as any]: `${((cfg.vehicleSize - 24) / (120 - 24)) * 100}%` }}
-                  title={`${cfg.vehicleSize}px`}
-                  onChange={(e) => setCfg({ ...cfg, vehicleSize: Number(e.currentTarget.value) })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Palette">
-                <select
-                  value={cfg.paletteIndex}
-                  onChange={(e) => setCfg({ ...cfg, paletteIndex: Number(e.currentTarget.value) })}
-                >
-                  {PALETTE.map((p, i) => (
-                    <option key={i} value={i}>{p.name}</option>
-                  ))}
-                </select>
-              </SettingsRow>
-            </SettingsGroup>
-
-            <SettingsGroup title="World">
-              <SettingsRow label="Wrap at edges">
-                <input
-                  type="checkbox"
-                  checked={cfg.wrapEdges}
-                  onChange={(e) => setCfg({ ...cfg, wrapEdges: e.currentTarget.checked })}
-                />
-              </SettingsRow>
-              <SettingsRow label="Show grid">
-                <input
-                  type="checkbox"
-                  checked={cfg.showGrid}
-                  onChange={(e) => setCfg({ ...cfg, showGrid: e.currentTarget.checked })}
-                />
-              </SettingsRow>
-            </SettingsGroup>
-          </div>
+          <SchemaSettings
+            schema={schema}
+            config={cfg}
+            onChange={setCfg}
+            presets={presets}
+            onReset={() => {
+              resetCfg();
+              managers.a11y.announce('Settings reset to defaults');
+            }}
+          />
         )}
       </div>
     </div>
@@ -508,10 +423,11 @@ function DrivingComponent({ managers }: { managers: { a11y: AccessibilityManager
 const def: GameDefinition = {
   id: 'driving-sandbox',
   name: 'Driving Sandbox',
-  description: 'Open field to test driving with keyboard or gamepad.',
+  description: 'Open field to test driving with keyboard, gamepad or touch.',
   category: 'motor',
   configSchema: schema,
   accessibilityFeatures: ['keyboardSupport', 'gamepadSupport', 'highContrast', 'reducedMotion'],
+  presets,
   createInstance: () => new DrivingSandboxGame(),
   component: DrivingComponent
 };
@@ -0,0 +1,592 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type {
+  GameDefinition,
+  IGame,
+  GameState,
+  GameConfig,
+  GameConfigSchema,
+  AccessibilityFeature,
+  GamePreset
+} from '../../types/game';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+import { InputManager } from '../../core/InputManager';
+import type { PresetLibrary } from '../../core/PresetLibrary';
+import type { AdaptiveDifficulty } from '../../core/AdaptiveDifficulty';
+import { ConfigManager, defaultsFor, validateConfig } from '../../core/ConfigManager';
+import { SchemaSettings } from '../../shared/components/settings/SchemaSettings';
+import { useGameConfig } from '../../shared/hooks/useGameConfig';
+import { SessionTracker } from '../../core/SessionTracker';
+import { GameEngine } from '../../core/GameEngine';
+import { useGameEngine } from '../../shared/hooks/useGameEngine';
+import { useGameEvent } from '../../shared/hooks/useGameEvent';
+
+type Face = { name: string; glyph: string; fg: string; bg: string };
+
+// High-contrast faces; every set names its cards so colour is never the only cue
+const CARD_SETS: Record<MMConfig['cardSet'], Face[]> = {
+  symbols: [
+    { name: 'Star', glyph: '★', fg: '#ffffff', bg: '#000000' },
+    { name: 'Circle', glyph: '●', fg: '#ffffff', bg: '#000000' },
+    { name: 'Triangle', glyph: '▲', fg: '#ffffff', bg: '#000000' },
+    { name: 'Square', glyph: '■', fg: '#ffffff', bg: '#000000' },
+    { name: 'Heart', glyph: '♥', fg: '#ffffff', bg: '#000000' },
+    { name: 'Diamond', glyph: '◆', fg: '#ffffff', bg: '#000000' },
+    { name: 'Cross', glyph: '✚', fg: '#ffffff', bg: '#000000' },
+    { name: 'Moon', glyph: '☾', fg: '#ffffff', bg: '#000000' }
+  ],
+  colours: [
+    { name: 'Red', glyph: 'Red', fg: '#ffffff', bg: '#d10f0f' },
+    { name: 'Blue', glyph: 'Blue', fg: '#ffffff', bg: '#0033aa' },
+    { name: 'Yellow', glyph: 'Yellow', fg: '#000000', bg: '#ffd800' },
+    { name: 'Green', glyph: 'Green', fg: '#ffffff', bg: '#0c6b1a' },
+    { name: 'Orange', glyph: 'Orange', fg: '#000000', bg: '#ff8c00' },
+    { name: 'Purple', glyph: 'Purple', fg: '#ffffff', bg: '#5b1a8a' },
+    { name: 'White', glyph: 'White', fg: '#000000', bg: '#ffffff' },
+    { name: 'Black', glyph: 'Black', fg: '#ffffff', bg: '#000000' }
+  ],
+  pictures: [
+    { name: 'Dog', glyph: '🐶', fg: '#000000', bg: '#ffffff' },
+    { name: 'Cat', glyph: '🐱', fg: '#000000', bg: '#ffffff' },
+    { name: 'Apple', glyph: '🍎', fg: '#000000', bg: '#ffffff' },
+    { name: 'Car', glyph: '🚗', fg: '#000000', bg: '#ffffff' },
+    { name: 'House', glyph: '🏠', fg: '#000000', bg: '#ffffff' },
+    { name: 'Sun', glyph: '☀️', fg: '#000000', bg: '#ffffff' },
+    { name: 'Fish', glyph: '🐟', fg: '#000000', bg: '#ffffff' },
+    { name: 'Tree', glyph: '🌳', fg: '#000000', bg: '#ffffff' }
+  ]
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    grid: {
+      type: 'string',
+      default: '3x2',
+      label: 'Cards',
+      group: 'Board',
+      options: [
+        { value: '2x2', label: '2 × 2 (2 pairs)' },
+        { value: '3x2', label: '3 × 2 (3 pairs)' },
+        { value: '4x2', label: '4 × 2 (4 pairs)' },
+        { value: '4x3', label: '4 × 3 (6 pairs)' },
+        { value: '4x4', label: '4 × 4 (8 pairs)' }
+      ]
+    },
+    cardSet: {
+      type: 'string',
+      default: 'symbols',
+      label: 'Card set',
+      group: 'Board',
+      options: [
+        { value: 'symbols', label: 'Symbols' },
+        { value: 'colours', label: 'Colours' },
+        { value: 'pictures', label: 'Pictures' }
+      ]
+    },
+    selectBy: {
+      type: 'string',
+      default: 'cursor',
+      label: 'Select by',
+      group: 'Interaction',
+      options: [
+        { value: 'cursor', label: 'Move and press' },
+        { value: 'scan', label: 'Scanning' }
+      ]
+    },
+    scanMs: {
+      type: 'number',
+      default: 2000,
+      min: 800,
+      max: 5000,
+      step: 100,
+      label: 'Time per card',
+      group: 'Interaction',
+      format: seconds,
+      visibleWhen: (c) => c.selectBy === 'scan'
+    },
+    peek: { type: 'boolean', default: false, label: 'Peek assistance', group: 'Assistance' },
+    peekMs: {
+      type: 'number',
+      default: 3000,
+      min: 1000,
+      max: 8000,
+      step: 500,
+      label: 'Peek time',
+      group: 'Assistance',
+      format: seconds,
+      visibleWhen: (c) => c.peek === true,
+      adapt: { easier: 'higher' }
+    }
+  }
+};
+
+const presets: GamePreset[] = [
+  {
+    id: 'first-pairs',
+    name: 'First pairs',
+    description: 'Two pairs of pictures with a long look before play.',
+    config: { grid: '2x2', cardSet: 'pictures', peek: true, peekMs: 5000 }
+  },
+  {
+    id: 'switch-scanning',
+    name: 'Switch scanning',
+    description: 'Cards are highlighted in turn; press the switch to turn one over.',
+    config: { grid: '3x2', selectBy: 'scan', scanMs: 2500 }
+  }
+];
+
+export type MMConfig = {
+  grid: '2x2' | '3x2' | '4x2' | '4x3' | '4x4';
+  cardSet: 'symbols' | 'colours' | 'pictures';
+  selectBy: 'cursor' | 'scan';
+  scanMs: number;
+  peek: boolean;
+  peekMs: number;
+};
+
+const defaultConfig = defaultsFor<MMConfig>(schema);
+
+export function gridSize(grid: MMConfig['grid']) {
+  const [cols, rows] = grid.split('x').map(Number) as [number, number];
+  return { cols, rows };
+}
+
+export type MemoryCard = { face: number; state: 'down' | 'up' | 'matched' };
+
+export type SelectResult =
+  | { kind: 'ignored' }
+  | { kind: 'flipped'; card: number }
+  | { kind: 'match' | 'mismatch'; card: number; other: number; done: boolean };
+
+export class MemoryMatchGame implements IGame {
+  id = 'memory-match';
+  name = 'Memory Match';
+  description = 'Turn over very large cards two at a time to find the pairs. No time limit.';
+  category = 'cognitive' as const;
+  configSchema = schema;
+  accessibilityFeatures: AccessibilityFeature[] = [
+    'keyboardSupport',
+    'screenReader',
+    'highContrast',
+    'largeTargets',
+    'reducedMotion',
+    'gamepadSupport'
+  ];
+
+  readonly engine = new GameEngine();
+  private cfg: MMConfig = defaultConfig;
+  readonly session = new SessionTracker();
+  private cards: MemoryCard[] = [];
+  private open: number[] = []; // face up but not matched
+  private openedAt = 0;
+  private turns = 0;
+
+  constructor(private random: () => number = Math.random) {}
+
+  initialize(config: GameConfig) {
+    this.cfg = validateConfig<MMConfig>(schema, config).config;
+    this.deal();
+    this.engine.run();
+  }
+  start() {
+    this.deal();
+    this.engine.start();
+    this.session.start();
+  }
+  pause() {
+    this.engine.pause();
+    this.session.pause();
+  }
+  resume() {
+    this.engine.resume();
+    this.session.resume();
+  }
+  reset() {
+    this.engine.reset();
+    this.session.reset();
+    this.deal();
+  }
+  cleanup() {
+    this.engine.stop();
+  }
+  getState(): GameState {
+    return this.engine.getState();
+  }
+  getMetrics() {
+    return this.session.snapshot();
+  }
+  getConfig(): MMConfig {
+    return { ...this.cfg };
+  }
+  getCards(): MemoryCard[] {
+    return this.cards.map((c) => ({ ...c }));
+  }
+  getTurns() {
+    return this.turns;
+  }
+  pairsLeft() {
+    return this.cards.filter((c) => c.state !== 'matched').length / 2;
+  }
+
+  // Turns a card over; a pair that didn't match stays up until the next selection
+  select(index: number, now = performance.now()): SelectResult {
+    if (!this.engine.isPlaying()) return { kind: 'ignored' };
+    if (this.open.length === 2) {
+      for (const i of this.open) this.cards[i]!.state = 'down';
+      this.open = [];
+    }
+    const card = this.cards[index];
+    if (!card || card.state !== 'down') return { kind: 'ignored' };
+    card.state = 'up';
+    if (!this.open.length) {
+      this.open = [index];
+      this.openedAt = now;
+      return { kind: 'flipped', card: index };
+    }
+
+    const other = this.open[0]!;
+    const match = this.cards[other]!.face === card.face;
+    this.open = [...this.open, index];
+    this.turns++;
+    if (match) {
+      card.state = this.cards[other]!.state = 'matched';
+      this.open = [];
+      this.engine.addScore();
+      this.session.hit(now);
+    } else {
+      this.session.miss();
+    }
+    this.engine.events.emit('trial', {
+      timeMs: now - this.openedAt,
+      misses: match ? 0 : 1,
+      overshoots: 0,
+      dwellAbandons: 0,
+      success: match
+    });
+    const done = this.pairsLeft() === 0;
+    if (done) this.engine.complete();
+    return { kind: match ? 'match' : 'mismatch', card: index, other, done };
+  }
+
+  updateConfig(config: Partial<GameConfig>) {
+    const grid = this.cfg.grid;
+    this.cfg = validateConfig<MMConfig>(schema, { ...this.cfg, ...config }).config;
+    if (this.cfg.grid === grid) return;
+    // a new board starts a new game; score and session can't carry over
+    if (this.engine.getState().started) this.reset();
+    else this.deal();
+  }
+
+  private deal() {
+    const { cols, rows } = gridSize(this.cfg.grid);
+    const faces = Array.from({ length: (cols * rows) / 2 }, (_, i) => [i, i]).flat();
+    for (let i = faces.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [faces[i], faces[j]] = [faces[j]!, faces[i]!];
+    }
+    this.cards = faces.map((face) => ({ face, state: 'down' }));
+    this.open = [];
+    this.turns = 0;
+  }
+}
+
+// React component
+function MemoryMatchComponent({
+  managers,
+  gameRef,
+  game,
+  presets,
+  adaptive
+}: {
+  managers: {
+    a11y: AccessibilityManager;
+    input: InputManager;
+    config: ConfigManager;
+  };
+  gameRef: React.MutableRefObject<ReturnType<GameDefinition['createInstance']> | null>;
+  game: IGame | null;
+  presets?: PresetLibrary | null;
+  adaptive?: AdaptiveDifficulty | null;
+}) {
+  const [cfg, setCfg, resetCfg] = useGameConfig<MMConfig>(
+    managers.config,
+    'memory-match',
+    schema,
+    undefined,
+    game?.engine.events
+  );
+  const engine = game?.engine;
+  const { started, paused: held } = useGameEngine(engine);
+  const paused = !started || held;
+
+  const mmGame = () => gameRef.current as MemoryMatchGame | null;
+  const [, setVersion] = useState(0);
+  const redraw = () => setVersion((v) => v + 1);
+  const cards = mmGame()?.getCards() ?? [];
+  const faces = CARD_SETS[cfg.cardSet];
+  const { cols, rows } = gridSize(cfg.grid);
+
+  const [cursor, setCursor] = useState(0);
+  const [peeking, setPeeking] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // read from input callbacks, which subscribe once
+  const live = useRef({ cursor, paused, peeking, cfg, cards });
+  live.current = { cursor, paused, peeking, cfg, cards };
+
+  const describe = (i: number) => {
+    const { cards: all, peeking: looking, cfg: c } = live.current;
+    const card = all[i];
+    if (!card) return '';
+    const w = gridSize(c.grid).cols;
+    const position = `row ${Math.floor(i / w) + 1}, column ${(i % w) + 1}`;
+    if (card.state === 'down' && !looking) return `Face down, ${position}`;
+    const name = CARD_SETS[c.cardSet][card.face]!.name;
+    return card.state === 'matched' ? `${name}, matched, ${position}` : `${name}, ${position}`;
+  };
+
+  const moveTo = (i: number, speak = true) => {
+    if (i === live.current.cursor) return;
+    live.current.cursor = i; // scan steps may come before the next render
+    setCursor(i);
+    if (speak) managers.a11y.announce(describe(i));
+  };
+
+  const select = (i: number) => {
+    const g = mmGame();
+    const { paused: p, peeking: looking, cards: before, cfg: c } = live.current;
+    if (!g || p || looking) return;
+    const result = g.select(i);
+    redraw();
+    const name = (card: number) => CARD_SETS[c.cardSet][g.getCards()[card]!.face]!.name;
+    if (result.kind === 'ignored') {
+      managers.a11y.announce(before[i]?.state === 'matched' ? 'Already matched' : 'Already turned over');
+    } else if (result.kind === 'flipped') {
+      managers.a11y.announce(name(i));
+    } else if (result.kind === 'mismatch') {
+      managers.a11y.announce(`${name(i)}. Not a match for ${name(result.other)}`);
+    } else if (result.done) {
+      managers.a11y.announce(`${name(i)}. A match! All pairs found in ${g.getTurns()} turns`);
+    } else {
+      const left = g.pairsLeft();
+      managers.a11y.announce(`${name(i)}. A match! ${left} ${left === 1 ? 'pair' : 'pairs'} left`);
+    }
+  };
+
+  // Shows every card for the configured time; play resumes when they turn back
+  const peek = () => {
+    if (live.current.paused || live.current.peeking) return;
+    setPeeking(true);
+  };
+  useEffect(() => {
+    if (!peeking) return;
+    // after the shell's own announcement when play starts
+    managers.a11y.announce('Look at the cards');
+    const t = setTimeout(() => {
+      setPeeking(false);
+      managers.a11y.announce('Cards turned back');
+    }, cfg.peekMs);
+    return () => clearTimeout(t);
+  }, [peeking, cfg.peekMs, managers.a11y]);
+
+  useGameEvent(engine?.events, 'start', () => {
+    setCursor(0);
+    redraw();
+    if (live.current.cfg.peek) setPeeking(true);
+  });
+  useGameEvent(engine?.events, 'reset', () => {
+    setCursor(0);
+    setPeeking(false);
+    redraw();
+  });
+
+  // a smaller grid may leave the cursor off the board
+  useEffect(() => {
+    if (cursor >= cards.length) setCursor(0);
+  }, [cursor, cards.length]);
+
+  // Arrows, stick or switch-scanned directions move one card per push
+  useEffect(() => {
+    let armed = true;
+    const unsub = managers.input.onMove((v) => {
+      const { paused: p, cursor: at, cfg: c, cards: all } = live.current;
+      if (Math.hypot(v.x, v.y) < 0.5) {
+        armed = true;
+        return;
+      }
+      if (!armed || p || c.selectBy !== 'cursor') return;
+      armed = false;
+      const { cols: w } = gridSize(c.grid);
+      const col = at % w;
+      const row = Math.floor(at / w);
+      const h = all.length / w;
+      const next =
+        Math.abs(v.x) >= Math.abs(v.y)
+          ? row * w + Math.max(0, Math.min(w - 1, col + Math.sign(v.x)))
+          : Math.max(0, Math.min(h - 1, row + Math.sign(v.y))) * w + col;
+      moveTo(next);
+    });
+    return () => {
+      unsub();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managers.input]);
+
+  // Pointer, touch and pen pick the card under them; a press turns it over
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const detach = managers.input.attachStage(stage);
+    const unsub = managers.input.onPoint((p) => {
+      const origin = stage.getBoundingClientRect();
+      const x = origin.left + p.x;
+      const y = origin.top + p.y;
+      const hit = cardRefs.current.findIndex((el) => {
+        const r = el?.getBoundingClientRect();
+        return !!r && x >= r.left && x <= r.right && y >= r.top && y <= r.bottom;
+      });
+      if (hit >= 0) moveTo(hit, false);
+    });
+    return () => {
+      unsub();
+      detach();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managers.input]);
+
+  useEffect(() => {
+    const unsub = managers.input.onTrigger(() => {
+      // the Peek button handles its own press
+      if (document.activeElement?.closest('.mm-hud')) return;
+      select(live.current.cursor);
+    });
+    return () => {
+      unsub();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managers.input]);
+
+  // Scanning: the highlight steps through the cards still in play
+  useEffect(() => {
+    if (cfg.selectBy !== 'scan' || paused || peeking) return;
+    const timer = setInterval(() => {
+      const { cursor: at, cards: all } = live.current;
+      for (let n = 1; n <= all.length; n++) {
+        const i = (at + n) % all.length;
+        if (all[i]!.state !== 'matched') {
+          moveTo(i);
+          return;
+        }
+      }
+    }, cfg.scanMs);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cfg.selectBy, cfg.scanMs, paused, peeking]);
+
+  // pause from the learner's bound keys or buttons; the shell handles reset
+  useEffect(() => {
+    const unsub = managers.input.onAction((action) => {
+      if (action === 'pause') {
+        if (!started) return;
+        if (paused) game?.resume();
+        else game?.pause();
+        managers.a11y.announce('Game ' + (paused ? 'resumed' : 'paused'));
+      }
+    });
+    return () => {
+      unsub();
+    };
+  }, [started, paused, game, managers.a11y, managers.input]);
+
+  const g = mmGame();
+  const pairs = cards.length / 2;
+  return (
+    <div ref={stageRef} className="tc-stage mm-stage" aria-label="Memory Match stage" tabIndex={0}>
+      <div
+        className="mm-board"
+        style={{ gridTemplateColumns: `repeat(${cols}, 1fr)`, gridTemplateRows: `repeat(${rows}, 1fr)` }}
+      >
+        {cards.map((card, i) => {
+          const shown = card.state !== 'down' || peeking;
+          const face = faces[card.face]!;
+          return (
+            <div
+              key={i}
+              ref={(el) => (cardRefs.current[i] = el)}
+              role="img"
+              aria-label={describe(i)}
+              aria-current={i === cursor ? 'true' : undefined}
+              className={[
+                'mm-card',
+                shown ? 'mm-card--up' : 'mm-card--down',
+                card.state === 'matched' && 'mm-card--matched',
+                i === cursor && 'mm-card--current'
+              ]
+                .filter(Boolean)
+                .join(' ')}
+              style={shown ? { color: face.fg, background: face.bg } : undefined}
+            >
+              <span aria-hidden="true" className={cfg.cardSet === 'colours' ? 'mm-card__name' : 'mm-card__glyph'}>
+                {shown ? face.glyph : '?'}
+              </span>
+              {card.state === 'matched' && (
+                <span aria-hidden="true" className="mm-card__check">
+                  ✓
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="tc-hud mm-hud">
+        <span>
+          Pairs {pairs - (g?.pairsLeft() ?? pairs)} of {pairs}
+        </span>
+        <span>Turns {g?.getTurns() ?? 0}</span>
+        {cfg.peek && (
+          <button type="button" onClick={peek} disabled={paused || peeking}>
+            Peek
+          </button>
+        )}
+      </div>
+
+      {!paused ? null : (
+        <SchemaSettings
+          schema={schema}
+          config={cfg}
+          onChange={setCfg}
+          presets={presets}
+          adaptive={adaptive}
+          onReset={() => {
+            resetCfg();
+            managers.a11y.announce('Settings reset to defaults');
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+const def: GameDefinition = {
+  id: 'memory-match',
+  name: 'Memory Match',
+  description: 'Turn over very large cards two at a time to find the pairs. No time limit.',
+  category: 'cognitive',
+  configSchema: schema,
+  accessibilityFeatures: [
+    'keyboardSupport',
+    'screenReader',
+    'highContrast',
+    'largeTargets',
+    'reducedMotion',
+    'gamepadSupport'
+  ],
+  presets,
+  createInstance: () => new MemoryMatchGame(),
+  component: MemoryMatchComponent
+};
+
+export default def;
@@ -5,11 +5,21 @@ import type {
   GameState,
   GameConfig,
   GameConfigSchema,
-  AccessibilityFeature
+  ConfigMigration,
+  AccessibilityFeature,
+  GamePreset
 } from '../../types/game';
 import { AccessibilityManager } from '../../core/AccessibilityManager';
-import { InputManager } from '../../core/InputManager';
-import { ConfigManager } from '../../core/ConfigManager';
+import { InputManager, type InputSource } from '../../core/InputManager';
+import type { PresetLibrary } from '../../core/PresetLibrary';
+import type { AdaptiveDifficulty } from '../../core/AdaptiveDifficulty';
+import { ConfigManager, defaultsFor, validateConfig } from '../../core/ConfigManager';
+import { SchemaSettings } from '../../shared/components/settings/SchemaSettings';
+import { useGameConfig } from '../../shared/hooks/useGameConfig';
+import { SessionTracker } from '../../core/SessionTracker';
+import { GameEngine } from '../../core/GameEngine';
+import { useGameEngine } from '../../shared/hooks/useGameEngine';
+import { useGameEvent } from '../../shared/hooks/useGameEvent';
 
 // High-contrast palette pairs per CONTEXT.md (cursor/target should be contrasting)
 const PALETTE = [
@@ -27,17 +37,113 @@ const PALETTE = [
 const schema: GameConfigSchema = {
   version: 3,
   properties: {
-    cursorSize: { type: 'number', min: 20, max: 100 },
-    cursorShape: { type: 'string' }, // circle | square | cross
-    paletteIndex: { type: 'number', min: 0, max: PALETTE.length - 1 },
-    targetSize: { type: 'number', min: 50, max: 200 },
-    soundOn: { type: 'boolean' },
-    collectionMode: { type: 'string' }, // instant | dwell | press
-  dwellMs: { type: 'number', min: 100, max: 1500 },
-  moveSpeed: { type: 'number', min: 1, max: 10 }
+    cursorSize: {
+      type: 'number',
+      default: 60,
+      min: 20,
+      max: 100,
+      label: 'Cursor size',
+      group: 'Appearance',
+      unit: 'px',
+      adapt: { easier: 'higher' }
+    },
+    cursorShape: {
+      type: 'string',
+      default: 'cross',
+      label: 'Cursor shape',
+      group: 'Appearance',
+      options: [
+        { value: 'circle', label: 'Circle' },
+        { value: 'square', label: 'Square' },
+        { value: 'cross', label: 'Cross' }
+      ]
+    },
+    paletteIndex: {
+      type: 'number',
+      default: 1,
+      min: 0,
+      max: PALETTE.length - 1,
+      label: 'Palette',
+      group: 'Appearance',
+      options: PALETTE.map((p, i) => ({ value: i, label: p.name }))
+    },
+    targetSize: {
+      type: 'number',
+      default: 120,
+      min: 50,
+      max: 200,
+      label: 'Target size',
+      group: 'Appearance',
+      unit: 'px',
+      adapt: { easier: 'higher' }
+    },
+    soundOn: { type: 'boolean', default: true, label: 'Success sound', group: 'Audio' },
+    collectionMode: {
+      type: 'string',
+      default: 'instant',
+      label: 'Collect by',
+      group: 'Interaction',
+      options: [
+        { value: 'instant', label: 'Instant (on overlap)' },
+        { value: 'dwell', label: 'Dwell on target' },
+        { value: 'press', label: 'Press (Space/Enter/Click)' }
+      ]
+    },
+    moveSpeed: {
+      type: 'number',
+      default: 3,
+      min: 1,
+      max: 10,
+      step: 1,
+      label: 'Movement speed',
+      group: 'Interaction',
+      format: (v) => `x${v}`,
+      adapt: { easier: 'lower' }
+    },
+    dwellMs: {
+      type: 'number',
+      default: 600,
+      min: 100,
+      max: 1500,
+      step: 50,
+      label: 'Dwell time',
+      group: 'Interaction',
+      unit: 'ms',
+      visibleWhen: (c) => c.collectionMode === 'dwell',
+      adapt: { easier: 'lower' }
+    }
   }
 };
 
+const migrations: ConfigMigration[] = [
+  {
+    from: 2,
+    to: 3,
+    migrate: ({ attraction: _attraction, ...rest }) => rest
+  }
+];
+
+const presets: GamePreset[] = [
+  {
+    id: 'very-large-slow',
+    name: 'Very large & slow',
+    description: 'Biggest cursor and targets at the lowest speed.',
+    config: { cursorSize: 100, targetSize: 200, moveSpeed: 1, collectionMode: 'instant' }
+  },
+  {
+    id: 'dwell-practice',
+    name: 'Dwell practice',
+    description: 'Hold the cursor on the target for one second to collect it.',
+    config: { collectionMode: 'dwell', dwellMs: 1000, targetSize: 160, moveSpeed: 2 }
+  },
+  {
+    id: 'press-to-collect',
+    name: 'Press-to-collect',
+    description: 'Reach the target, then press a button to collect it.',
+    config: { collectionMode: 'press', targetSize: 140 }
+  }
+];
+
 export type TCConfig = {
   cursorSize: number;
   cursorShape: 'circle' | 'square' | 'cross';
@@ -49,56 +155,9 @@ export type TCConfig = {
   moveSpeed: number; // 1..10 multiplier
 };
 
-const defaultConfig: TCConfig = {
-  cursorSize: 60,
-  cursorShape: 'cross',
-  paletteIndex: 1,
-  targetSize: 120,
-  soundOn: true,
-  collectionMode: 'instant',
-  dwellMs: 600,
-  moveSpeed: 3
-};
-
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
-}
-
-function sanitizeConfig(raw: Partial<TCConfig> | undefined): TCConfig {
-  const r = raw ?? {};
-  const paletteIndex = clamp(
-    Number((r as any).paletteIndex ?? defaultConfig.paletteIndex),
-    0,
-    PALETTE.length - 1
-  );
-  const cursorSize = clamp(Number((r as any).cursorSize ?? defaultConfig.cursorSize), 20, 100);
-  const targetSize = clamp(Number((r as any).targetSize ?? defaultConfig.targetSize), 50, 200);
-  const cursorShape: TCConfig['cursorShape'] = ['circle', 'square', 'cross'].includes(
-    (r as any).cursorShape
-  )
-    ? ((r as any).cursorShape as TCConfig['cursorShape'])
-    : defaultConfig.cursorShape;
-  const collectionMode: TCConfig['collectionMode'] = ['instant', 'dwell', 'press'].includes(
-    (r as any).collectionMode
-  )
-    ? ((r as any).collectionMode as TCConfig['collectionMode'])
-    : defaultConfig.collectionMode;
-  const dwellMs = clamp(Number((r as any).dwellMs ?? defaultConfig.dwellMs), 100, 1500);
-  const soundOn = (r as any).soundOn !== undefined ? Boolean((r as any).soundOn) : defaultConfig.soundOn;
-  const moveSpeed = clamp(Number((r as any).moveSpeed ?? defaultConfig.moveSpeed), 1, 10);
-  return {
-    cursorSize,
-    cursorShape,
-    paletteIndex,
-    targetSize,
-    soundOn,
-    collectionMode,
-    dwellMs,
-    moveSpeed
-  };
-}
+const defaultConfig = defaultsFor<TCConfig>(schema);
 
-class TargetCollectionGame implements IGame {
+export class TargetCollectionGame implements IGame {
   id = 'target-collection';
   name = 'Target Collection';
   description = 'Move a large cursor to collect targets. No time pressure.';
@@ -113,32 +172,54 @@ class TargetCollectionGame implements IGame {
     'gamepadSupport'
   ];
 
-  private state: GameState = { started: false, paused: false, score: 0, timestamp: 0 };
+  readonly engine = new GameEngine();
   private cfg: TCConfig = defaultConfig;
-  private configMgr: ConfigManager | null = null;
-  private a11y: AccessibilityManager | null = null;
+  readonly session = new SessionTracker();
 
   initialize(config: GameConfig) {
-    // runtime config merge is handled in component; placeholder for interface
+    this.cfg = validateConfig<TCConfig>(schema, config).config;
+    this.engine.run();
   }
   start() {
-    this.state.started = true;
+    this.engine.start();
+    this.session.start();
   }
   pause() {
-    this.state.paused = true;
+    this.engine.pause();
+    this.session.pause();
   }
   resume() {
-    this.state.paused = false;
+    this.engine.resume();
+    this.session.resume();
   }
   reset() {
-    this.state = { started: false, paused: false, score: 0, timestamp: 0 };
+    this.engine.reset();
+    this.session.reset();
+  }
+  cleanup() {
+    this.engine.stop();
   }
-  cleanup() {}
-  getState() {
-    return this.state;
+  getState(): GameState {
+    return this.engine.getState();
+  }
+  getMetrics() {
+    return this.session.snapshot();
+  }
+  getConfig(): TCConfig {
+    return { ...this.cfg };
+  }
+  // Scoring lives here so the game can be played without its component
+  collect() {
+    if (!this.engine.isPlaying()) return;
+    this.engine.addScore();
+    const leg = this.session.hit();
+    if (leg) this.engine.events.emit('trial', leg);
+  }
+  miss() {
+    if (this.engine.isPlaying()) this.session.miss();
   }
   updateConfig(config: Partial<GameConfig>) {
-    this.cfg = { ...(this.cfg as TCConfig), ...(config as Partial<TCConfig>) } as TCConfig;
+    this.cfg = validateConfig<TCConfig>(schema, { ...this.cfg, ...config }).config;
   }
 }
 
@@ -205,7 +286,10 @@ const luminance = (hex: string) => {
 // React component
 function TargetCollectionComponent({
   managers,
-  gameRef
+  gameRef,
+  game,
+  presets,
+  adaptive
 }: {
   managers: {
     a11y: AccessibilityManager;
@@ -213,20 +297,33 @@ function TargetCollectionComponent({
     config: ConfigManager;
   };
   gameRef: React.MutableRefObject<ReturnType<GameDefinition['createInstance']> | null>;
+  game: IGame | null;
+  presets?: PresetLibrary | null;
+  adaptive?: AdaptiveDifficulty | null;
 }) {
-  const [cfg, setCfg] = useState<TCConfig>(() => sanitizeConfig({}));
+  const [cfg, setCfg, resetCfg] = useGameConfig<TCConfig>(
+    managers.config,
+    'target-collection',
+    schema,
+    migrations,
+    game?.engine.events
+  );
   const cfgRef = useRef(cfg);
   useEffect(() => {
     cfgRef.current = cfg;
   }, [cfg]);
 
-  const [paused, setPaused] = useState(true);
+  const engine = game?.engine;
+  // the cursor moves every frame, even before Play; scoring waits for the game to run
+  const { started, paused: held, score } = useGameEngine(engine, { frame: (dt) => step(dt) });
+  useGameEvent(engine?.events, 'reset', () => {
+    const st = stageRef.current?.getBoundingClientRect();
+    if (st) posRef.current = { x: st.width / 2, y: st.height / 2 };
+    placeTarget();
+  });
+  const paused = !started || held;
   const pausedRef = useRef(paused);
-  useEffect(() => {
-    pausedRef.current = paused;
-  }, [paused]);
-
-  const [score, setScore] = useState(0);
+  pausedRef.current = paused;
 
   const stageRef = useRef<HTMLDivElement>(null);
   const cursorRef = useRef<HTMLDivElement>(null);
@@ -269,10 +366,9 @@ function TargetCollectionComponent({
   const velRef = useRef({ x: 0, y: 0 });
   const posRef = useRef({ x: 0, y: 0 });
   const pointerTargetRef = useRef({ x: 0, y: 0 });
+  const pointerFilteringRef = useRef(false);
   const targetPosRef = useRef({ x: 0, y: 0 });
-  const lastSourceRef = useRef<'keyboard' | 'gamepad' | 'pointer'>('pointer');
-  const rafRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number | null>(null);
+  const lastSourceRef = useRef<InputSource>('pointer');
   const unsubRef = useRef<() => void>();
   const triggerUnsubRef = useRef<() => void>();
   const overlapRef = useRef(false);
@@ -280,6 +376,9 @@ function TargetCollectionComponent({
   const collectedGuardRef = useRef(false);
 
   // helpers
+  const tcGame = () => gameRef.current as TargetCollectionGame | null;
+  const session = () => tcGame()?.session;
+
   const randomTarget = (stage: DOMRect) => {
     const margin = cfg.targetSize / 2 + 50;
     const x = Math.random() * (stage.width - margin * 2) + margin;
@@ -302,6 +401,7 @@ function TargetCollectionComponent({
     if (!stage || !el) return;
     const p = randomTarget(stage);
     targetPosRef.current = p;
+    session()?.targetShown(posRef.current, p);
     const half = cfg.targetSize / 2;
     el.style.transform = `translate(${p.x - half}px, ${p.y - half}px)`;
     managers.a11y.announce('Target appeared ' + describeLocation(p, stage));
@@ -313,10 +413,7 @@ function TargetCollectionComponent({
     // pulse animation
     const el = targetRef.current;
     if (el) {
-      const reduced = getComputedStyle(document.documentElement)
-        .getPropertyValue('--reduced-motion')
-        .trim() === '1';
-      if (!reduced) {
+      if (!engine?.reducedMotion) {
         el.animate(
           [
             { transform: el.style.transform + ' scale(1)', filter: 'brightness(1)' },
@@ -328,7 +425,7 @@ function TargetCollectionComponent({
       // immediate hide to avoid double-scoring and provide clear feedback
       el.style.opacity = '0';
     }
-    setScore((s) => s + 1);
+    tcGame()?.collect();
     managers.a11y.announce('Target collected');
   if (cfg.soundOn) playSuccess();
     // place next
@@ -350,25 +447,24 @@ function TargetCollectionComponent({
     return overlap;
   };
 
-  const step = () => {
+  const step = (frameMs: number) => {
     const stage = stageRef.current?.getBoundingClientRect();
     const cursor = cursorRef.current;
-    if (!stage || !cursor) {
-      rafRef.current = requestAnimationFrame(step);
-      return;
-    }
+    if (!stage || !cursor) return;
 
   // movement: blend toward pointer location only when pointer is the active source
   const now = performance.now();
-  const dt = lastTimeRef.current == null ? 16.7 : Math.min(50, now - lastTimeRef.current);
-  lastTimeRef.current = now;
+  const dt = Math.min(50, frameMs);
   const base = cfgRef.current.moveSpeed; // 1..10
-  const perSource = lastSourceRef.current === 'gamepad' ? 1.3 : lastSourceRef.current === 'keyboard' ? 1.0 : 0;
+  const perSource = lastSourceRef.current === 'gamepad' ? 1.3 : lastSourceRef.current === 'pointer' ? 0 : 1.0;
   const speedPerMs = (base * perSource) / 16.7;
-    const alpha = 0.22; // fixed smoothing factor for pointer blending
+    // pointer follows through the profile's tremor filter
     if (lastSourceRef.current === 'pointer') {
-      posRef.current.x += (pointerTargetRef.current.x - posRef.current.x) * alpha;
-      posRef.current.y += (pointerTargetRef.current.y - posRef.current.y) * alpha;
+      if (!pointerFilteringRef.current) managers.input.resetPointerFilter(posRef.current);
+      pointerFilteringRef.current = true;
+      posRef.current = managers.input.filterPoint(pointerTargetRef.current, now);
+    } else {
+      pointerFilteringRef.current = false;
     }
   // apply keyboard/gamepad velocity on both axes
   posRef.current.x += velRef.current.x * speedPerMs * dt;
@@ -378,10 +474,16 @@ function TargetCollectionComponent({
     posRef.current.y = Math.max(halfCursor, Math.min(stage.height - halfCursor, posRef.current.y));
 
     // attraction removed in v3
+    if (!pausedRef.current) session()?.move(posRef.current);
 
     cursor.style.transform = `translate(${posRef.current.x - halfCursor}px, ${posRef.current.y - halfCursor}px)`;
     if (!pausedRef.current) {
+      const wasOver = overlapRef.current;
       const overlap = checkCollision();
+      // leaving in dwell mode is counted as an abandoned dwell below
+      if (wasOver && !overlap && !collectedGuardRef.current && cfgRef.current.collectionMode === 'press') {
+        session()?.overshoot();
+      }
       if (!collectedGuardRef.current) {
         if (cfgRef.current.collectionMode === 'instant' && overlap) {
           collectTarget();
@@ -394,13 +496,12 @@ function TargetCollectionComponent({
               dwellStartRef.current = null;
             }
           } else {
+            if (dwellStartRef.current != null) session()?.dwellAbandon();
             dwellStartRef.current = null;
           }
         }
       }
     }
-
-    rafRef.current = requestAnimationFrame(step);
   };
 
   // Input subscriptions
@@ -425,12 +526,39 @@ function TargetCollectionComponent({
     return () => unsubRef.current?.();
   }, [managers.input]);
 
-  // Press-to-collect via keyboard/gamepad trigger
+  // Pointer, touch and pen: the cursor follows the stage position
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const detach = managers.input.attachStage(stage);
+    const unsub = managers.input.onPoint((p) => {
+      const r = stage.getBoundingClientRect();
+      const half = cfgRef.current.cursorSize / 2;
+      const x = Math.max(half, Math.min(r.width - half, p.x));
+      const y = Math.max(half, Math.min(r.height - half, p.y));
+      pointerTargetRef.current = { x, y };
+      if (p.phase === 'enter') {
+        posRef.current = { x, y };
+        lastSourceRef.current = 'pointer';
+        return;
+      }
+      // pointer takes control only if move is significant
+      if (Math.hypot(x - posRef.current.x, y - posRef.current.y) > 2) lastSourceRef.current = 'pointer';
+      velRef.current = { x: 0, y: 0 };
+    });
+    return () => {
+      unsub();
+      detach();
+    };
+  }, [managers.input]);
+
+  // Press-to-collect via keyboard/gamepad trigger, or a pointer press on the stage
   useEffect(() => {
     triggerUnsubRef.current = managers.input.onTrigger(() => {
       if (cfg.collectionMode !== 'press') return;
       if (paused) return;
       if (!collectedGuardRef.current && overlapRef.current) collectTarget();
+      else if (!overlapRef.current) tcGame()?.miss();
     });
     return () => triggerUnsubRef.current?.();
   }, [cfg.collectionMode, paused, managers.input]);
@@ -441,7 +569,6 @@ function TargetCollectionComponent({
     if (!stage) return;
     posRef.current = { x: stage.width / 2, y: stage.height / 2 };
     placeTarget();
-    rafRef.current = requestAnimationFrame(step);
     const onResize = () => {
       const st = stageRef.current?.getBoundingClientRect();
       if (!st) return;
@@ -456,52 +583,30 @@ function TargetCollectionComponent({
     };
     window.addEventListener('resize', onResize);
     return () => {
-      if (rafRef.current) cancelAnimationFrame(rafRef.current);
       window.removeEventListener('resize', onResize);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [cfg.targetSize]);
 
-  // keyboard controls: pause/reset (avoid conflicts in press mode)
+  // pause/recenter from the learner's bound keys or buttons; the shell handles reset
   useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      const k = e.key.toLowerCase();
-      const pauseKey = cfg.collectionMode === 'press' ? 'p' : ' ';
-      const resetKey = cfg.collectionMode === 'press' ? 'r' : 'enter';
-      if (k === pauseKey || (pauseKey === ' ' && e.key === ' ')) {
-        setPaused((p) => !p);
+    const unsub = managers.input.onAction((action) => {
+      if (action === 'pause') {
+        if (!started) return;
+        if (paused) game?.resume();
+        else game?.pause();
         managers.a11y.announce('Game ' + (paused ? 'resumed' : 'paused'));
-      } else if (k === resetKey) {
-        // reset
-        setScore(0);
+      } else if (action === 'recenter') {
         const st = stageRef.current?.getBoundingClientRect();
         if (st) posRef.current = { x: st.width / 2, y: st.height / 2 };
-        placeTarget();
-        managers.a11y.announce('Game reset');
-      }
-    };
-    window.addEventListener('keydown', onKey);
-    return () => window.removeEventListener('keydown', onKey);
-  }, [paused, managers.a11y, cfg.collectionMode]);
-
-  // React to GameShell state events to hide/show config
-  useEffect(() => {
-    const onState = (e: Event) => {
-      const detail = (e as CustomEvent).detail as { action: string; id: string };
-      if (detail?.id !== 'target-collection') return;
-      if (detail.action === 'start' || detail.action === 'resume') setPaused(false);
-      if (detail.action === 'pause') setPaused(true);
-      if (detail.action === 'reset') {
-        setPaused(true);
-        setScore(0);
-        const st = stageRef.current?.getBoundingClientRect();
-        if (st) posRef.current = { x: st.width / 2, y: st.height / 2 };
-        placeTarget();
+        pointerTargetRef.current = { ...posRef.current };
+        managers.a11y.announce('Cursor recentered');
       }
+    });
+    return () => {
+      unsub();
     };
-    window.addEventListener('game:state', onState as EventListener);
-    return () => window.removeEventListener('game:state', onState as EventListener);
-  }, []);
+  }, [started, paused, game, managers.a11y, managers.input]);
 
   // ESC exits fullscreen handled by browser; no extra code needed
 
@@ -542,13 +647,6 @@ function TargetCollectionComponent({
     return common;
   }, [cfg.targetSize, palette.target]);
 
-  // convenience computed values for range fill
-  const rangeFill = {
-    cursor: `${((cfg.cursorSize - 20) / (100 - 20)) * 100}%`,
-    target: `${((cfg.targetSize - 50) / (200 - 50)) * 100}%`,
-    dwell: `${((cfg.dwellMs - 100) / (1500 - 100)) * 100}%`
-  } as const;
-
   return (
     <div
       ref={stageRef}
@@ -569,43 +667,6 @@ function TargetCollectionComponent({
       }}
       aria-label="Target Collection stage"
       tabIndex={0}
-      onPointerEnter={(e) => {
-        const r = stageRef.current?.getBoundingClientRect();
-        if (!r) return;
-        const cx = e.clientX - r.left;
-        const cy = e.clientY - r.top;
-        const half = cfg.cursorSize / 2;
-        const x = Math.max(half, Math.min(r.width - half, cx));
-  const y = Math.max(half, Math.min(r.height - half, cy));
-  pointerTargetRef.current.x = x;
-  pointerTargetRef.current.y = y;
-  posRef.current.x = x;
-  posRef.current.y = y;
-  // pointer takes control
-  lastSourceRef.current = 'pointer';
-      }}
-      onPointerMove={(e) => {
-        const r = stageRef.current?.getBoundingClientRect();
-        if (!r) return;
-        const cx = e.clientX - r.left;
-        const cy = e.clientY - r.top;
-        const half = cfg.cursorSize / 2;
-  const px = Math.max(half, Math.min(r.width - half, cx));
-  const py = Math.max(half, Math.min(r.height - half, cy));
-  pointerTargetRef.current.x = px;
-  pointerTargetRef.current.y = py;
-  // pointer takes control only if move is significant
-  const d = Math.hypot(px - posRef.current.x, py - posRef.current.y);
-  if (d > 2) lastSourceRef.current = 'pointer';
-  velRef.current.x = 0;
-  velRef.current.y = 0;
-      }}
-      onPointerDown={() => {
-        if (cfgRef.current.collectionMode !== 'press') return;
-        if (pausedRef.current) return;
-        const over = checkCollision();
-        if (!collectedGuardRef.current && (over || overlapRef.current)) collectTarget();
-      }}
     >
       {/* Cursor */}
       <div ref={cursorRef} style={shapeStyle} aria-hidden="true">
@@ -643,122 +704,17 @@ function TargetCollectionComponent({
 
       {/* Config Panel */}
       {!paused ? null : (
-        <div className="tc-config" role="region" aria-label="Settings">
-      <fieldset className="tc-group">
-            <legend>Appearance</legend>
-      <label className="tc-row">
-              Cursor size
-              <input
-                type="range"
-                min={20}
-                max={100}
-                value={cfg.cursorSize}
-                style={{ ['--_filled' as any]: rangeFill.cursor }}
-        title={`${cfg.cursorSize}px`}
-                onChange={(e) => setCfg({ ...cfg, cursorSize: Number(e.currentTarget.value) })}
-              />
-            </label>
-
-            <label className="tc-row">
-              Cursor shape
-              <select
-                value={cfg.cursorShape}
-                onChange={(e) =>
-                  setCfg({ ...cfg, cursorShape: e.currentTarget.value as TCConfig['cursorShape'] })
-                }
-              >
-                <option value="circle">Circle</option>
-                <option value="square">Square</option>
-                <option value="cross">Cross</option>
-              </select>
-            </label>
-
-            <label className="tc-row">
-              Palette
-              <select
-                value={cfg.paletteIndex}
-                onChange={(e) => setCfg({ ...cfg, paletteIndex: Number(e.currentTarget.value) })}
-              >
-                {PALETTE.map((p, i) => (
-                  <option key={i} value={i}>
-                    {p.name}
-                  </option>
-                ))}
-              </select>
-            </label>
-
-      <label className="tc-row">
-              Target size
-              <input
-                type="range"
-                min={50}
-                max={200}
-                value={cfg.targetSize}
-                style={{ ['--_filled' as any]: rangeFill.target }}
-        title={`${cfg.targetSize}px`}
-                onChange={(e) => setCfg({ ...cfg, targetSize: Number(e.currentTarget.value) })}
-              />
-            </label>
-          </fieldset>
-
-          <fieldset className="tc-group">
-            <legend>Audio</legend>
-            <label className="tc-row">
-              Success sound
-              <input
-                type="checkbox"
-                checked={cfg.soundOn}
-                onChange={(e) => setCfg({ ...cfg, soundOn: e.currentTarget.checked })}
-              />
-            </label>
-          </fieldset>
-
-          <fieldset className="tc-group">
-            <legend>Interaction</legend>
-            {/* Attraction control removed in v3 */}
-            <label className="tc-row">
-              Collect by
-              <select
-                value={cfg.collectionMode}
-                onChange={(e) =>
-                  setCfg({ ...cfg, collectionMode: e.currentTarget.value as TCConfig['collectionMode'] })
-                }
-              >
-                <option value="instant">Instant (on overlap)</option>
-                <option value="dwell">Dwell on target</option>
-                <option value="press">Press (Space/Enter/Click)</option>
-              </select>
-            </label>
-            <label className="tc-row">
-              Movement speed
-              <input
-                type="range"
-                min={1}
-                max={10}
-                step={1}
-                value={cfg.moveSpeed}
-                style={{ ['--_filled' as any]: `${((cfg.moveSpeed - 1) / 9) * 100}%` }}
-                title={`x${cfg.moveSpeed}`}
-                onChange={(e) => setCfg({ ...cfg, moveSpeed: Number(e.currentTarget.value) })}
-              />
-            </label>
-      {cfg.collectionMode === 'dwell' && (
-        <label className="tc-row">
-                Dwell time (ms)
-                <input
-                  type="range"
-                  min={100}
-                  max={1500}
-                  step={50}
-                  value={cfg.dwellMs}
-                  style={{ ['--_filled' as any]: rangeFill.dwell }}
-          title={`${cfg.dwellMs} ms`}
-                  onChange={(e) => setCfg({ ...cfg, dwellMs: Number(e.currentTarget.value) })}
-                />
-              </label>
-            )}
-          </fieldset>
-        </div>
+        <SchemaSettings
+          schema={schema}
+          config={cfg}
+          onChange={setCfg}
+          presets={presets}
+          adaptive={adaptive}
+          onReset={() => {
+            resetCfg();
+            managers.a11y.announce('Settings reset to defaults');
+          }}
+        />
       )}
     </div>
   );
@@ -778,6 +734,8 @@ const def: GameDefinition = {
     'reducedMotion',
     'gamepadSupport'
   ],
+  migrations,
+  presets,
   createInstance: () => new TargetCollectionGame(),
   component: TargetCollectionComponent
 };
@@ -1,18 +1,14 @@
 import type { GameDefinition } from '../../types/game';
-import Component from './template.component';
+import Component, { schema } from './template.component';
+import { SessionTracker } from '../../core/SessionTracker';
+import { GameEngine } from '../../core/GameEngine';
 
 const def: GameDefinition = {
   id: 'template-game',
   name: 'Template Game',
   description: 'Starting point for a new mini game.',
   category: 'motor',
-  configSchema: {
-    version: 1,
-    properties: {
-      // add your game-specific config here
-      exampleNumber: { type: 'number', min: 1, max: 10 },
-    }
-  },
+  configSchema: schema,
   accessibilityFeatures: [
     'keyboardSupport',
     'gamepadSupport',
@@ -21,18 +17,30 @@ const def: GameDefinition = {
     'largeTargets',
     'reducedMotion'
   ],
-  createInstance: () => ({
-    id: 'template-game',
-    name: 'Template Game',
-    description: 'Starting point for a new mini game.',
-    category: 'motor',
-    configSchema: { version: 1, properties: {} },
-    accessibilityFeatures: [],
-    initialize() {},
-    start() {}, pause() {}, resume() {}, reset() {}, cleanup() {},
-    getState() { return { started: false, paused: false, score: 0, timestamp: 0 }; },
-    updateConfig() {}
-  }),
+  createInstance: () => {
+    // Feeds getMetrics(); see TargetCollection for recording targets, hits and misses
+    const session = new SessionTracker();
+    // Owns the loop, pause state and score; the component subscribes with useGameEngine
+    const engine = new GameEngine();
+    return {
+      id: 'template-game',
+      name: 'Template Game',
+      description: 'Starting point for a new mini game.',
+      category: 'motor',
+      configSchema: { version: 1, properties: {} },
+      accessibilityFeatures: [],
+      engine,
+      initialize() { engine.run(); },
+      start() { engine.start(); session.start(); },
+      pause() { engine.pause(); session.pause(); },
+      resume() { engine.resume(); session.resume(); },
+      reset() { engine.reset(); session.reset(); },
+      cleanup() { engine.stop(); },
+      getState() { return engine.getState(); },
+      getMetrics() { return session.snapshot(); },
+      updateConfig() {}
+    };
+  },
   component: Component
 };
 
@@ -1,33 +1,58 @@
-import React, { useMemo, useRef, useState } from 'react';
-import type { GameDefinition } from '../../types/game';
-import { SettingsGroup } from '../../shared/components/settings/SettingsGroup';
-import { SettingsRow } from '../../shared/components/settings/SettingsRow';
-import { useGameLoop } from '../../shared/hooks/useGameLoop';
+import React, { useMemo, useRef } from 'react';
+import type { GameConfigSchema, IGame } from '../../types/game';
+import { SchemaSettings } from '../../shared/components/settings/SchemaSettings';
+import { useGameEngine } from '../../shared/hooks/useGameEngine';
 import { useDeviceInput } from '../../shared/hooks/useDeviceInput';
 import { AccessibilityManager } from '../../core/AccessibilityManager';
 import { InputManager } from '../../core/InputManager';
+import { ConfigManager } from '../../core/ConfigManager';
+import type { PresetLibrary } from '../../core/PresetLibrary';
+import type { AdaptiveDifficulty } from '../../core/AdaptiveDifficulty';
+import { useGameConfig } from '../../shared/hooks/useGameConfig';
+
+// Declare settings here; the settings panel is generated from this schema
+export const schema: GameConfigSchema = {
+  version: 1,
+  properties: {
+    exampleNumber: { type: 'number', default: 5, min: 1, max: 10, label: 'Example number', group: 'Example' }
+  }
+};
+
+type TemplateConfig = { exampleNumber: number };
 
 export default function TemplateGameComponent({
-  managers
+  managers,
+  game,
+  presets,
+  adaptive
 }: {
-  managers: { a11y: AccessibilityManager; input: InputManager };
+  managers: { a11y: AccessibilityManager; input: InputManager; config: ConfigManager };
+  game: IGame | null;
+  presets?: PresetLibrary | null; // built-in ones come from the definition's `presets`
+  adaptive?: AdaptiveDifficulty | null; // set when the schema marks properties with `adapt`
 }) {
-  // Example: basic config state (replace with schema-backed state if needed)
-  const [exampleNumber, setExampleNumber] = useState(5);
+  // Settings persisted under the game id (keep in sync with index.ts)
+  const [cfg, setCfg, resetCfg] = useGameConfig<TemplateConfig>(
+    managers.config,
+    'template-game',
+    schema,
+    undefined,
+    game?.engine.events
+  );
 
-  // Game state
-  const [paused, setPaused] = useState(true);
   const stageRef = useRef<HTMLDivElement>(null);
 
   // Input
   const { vector, sourceRef } = useDeviceInput(managers.input);
 
-  // Loop (dt in ms)
-  useGameLoop((dt) => {
-    if (paused) return;
-    // use dt, vector, and sourceRef.current here
-    // ... game logic ...
-  }, true);
+  // Loop: `update` runs on a fixed step (dt in ms) only while playing
+  const state = useGameEngine(game?.engine, {
+    update: (dt) => {
+      // use dt, vector, and sourceRef.current here; game?.engine?.addScore() when the learner scores
+      // ... game logic ...
+    }
+  });
+  const paused = !state.started || state.paused;
 
   // Render
   const bg = useMemo(() => '#1a1a1a', []);
@@ -40,22 +65,8 @@ export default function TemplateGameComponent({
         tabIndex={0}
         aria-label="Template stage"
       />
-      {/* Example settings (replace per game) */}
-      {paused && (
-        <div className="tc-config" role="region" aria-label="Settings">
-          <SettingsGroup title="Example">
-            <SettingsRow label="Example number">
-              <input
-                type="range"
-                min={1}
-                max={10}
-                value={exampleNumber}
-                onChange={(e) => setExampleNumber(Number(e.currentTarget.value))}
-              />
-            </SettingsRow>
-          </SettingsGroup>
-        </div>
-      )}
+      {/* Settings generated from the schema */}
+      {paused && <SchemaSettings schema={schema} config={cfg} onChange={setCfg} onReset={resetCfg} presets={presets} adaptive={adaptive} />}
     </div>
   );
 }
@@ -1,12 +1,27 @@
-import { ThemeManager } from '../../core/ThemeManager';
+import { useEffect, useState } from 'react';
+import { ThemeManager, type ThemeSettings } from '../../core/ThemeManager';
 import { AccessibilityManager } from '../../core/AccessibilityManager';
+import { DwellManager, type DwellSettings } from '../../core/DwellManager';
 
 type Props = {
   theme: ThemeManager;
   a11y: AccessibilityManager;
+  dwell?: DwellManager;
+  onChange?: (settings: ThemeSettings) => void;
+  onDwellChange?: (settings: DwellSettings) => void;
 };
 
-export function A11yToolbar({ theme, a11y }: Props) {
+export function A11yToolbar({ theme, a11y, dwell, onChange, onDwellChange }: Props) {
+  const [dwellOn, setDwellOn] = useState(() => !!dwell?.getSettings().enabled);
+  useEffect(() => {
+    if (!dwell) return;
+    setDwellOn(dwell.getSettings().enabled);
+    const unsub = dwell.onSettings((s) => setDwellOn(s.enabled));
+    return () => {
+      unsub();
+    };
+  }, [dwell]);
+
   return (
     <div className="toolbar" role="region" aria-label="Accessibility toolbar">
       <button
@@ -14,6 +29,7 @@ export function A11yToolbar({ theme, a11y }: Props) {
         onClick={() => {
           const next = !theme.isHighContrast();
           theme.setHighContrast(next);
+          onChange?.(theme.getSettings());
           a11y.announce(`High contrast ${next ? 'enabled' : 'disabled'}`);
         }}
       >
@@ -24,11 +40,25 @@ export function A11yToolbar({ theme, a11y }: Props) {
         onClick={() => {
           const next = !theme.isReducedMotion();
           theme.setReducedMotion(next);
+          onChange?.(theme.getSettings());
           a11y.announce(`Reduced motion ${next ? 'enabled' : 'disabled'}`);
         }}
       >
         Reduced motion
       </button>
+      {dwell && (
+        <button
+          className="btn"
+          aria-pressed={dwellOn}
+          onClick={() => {
+            dwell.setSettings({ enabled: !dwellOn });
+            onDwellChange?.(dwell.getSettings());
+            a11y.announce(`Dwell click ${dwellOn ? 'disabled' : 'enabled'}`);
+          }}
+        >
+          Dwell click
+        </button>
+      )}
     </div>
   );
 }
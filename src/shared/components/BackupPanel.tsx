@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import type { GameDefinition } from '../../types/game';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+import { ConfigManager } from '../../core/ConfigManager';
+import type { Profile } from '../../core/ProfileManager';
+import {
+  applyImport,
+  exportSettings,
+  parseSettings,
+  previewImport,
+  type ImportMode,
+  type ParsedImport
+} from '../../core/SettingsTransfer';
+import { downloadFile, fileSlug } from '../utils/download';
+
+const KIND_TEXT = {
+  added: 'New',
+  changed: 'Will change',
+  removed: 'Will be removed',
+  unchanged: 'No change',
+  skipped: 'Skipped'
+} as const;
+
+export function BackupPanel({
+  config,
+  profile,
+  games,
+  a11y,
+  createProfile,
+  onImported
+}: {
+  config: ConfigManager;
+  profile: Profile | null;
+  games: GameDefinition[];
+  a11y: AccessibilityManager;
+  createProfile: (data: Omit<Profile, 'id'>) => Profile;
+  onImported: (profileId: string | null) => void;
+}) {
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const owner = profile?.name ?? 'Guest';
+  const changes = parsed ? previewImport(parsed, config, mode, games) : [];
+  const fileProfile = parsed?.profile ?? null;
+
+  const finish = (target: ConfigManager, message: string) => {
+    if (!parsed) return;
+    applyImport(parsed, target, mode);
+    setParsed(null);
+    a11y.announce(message);
+    onImported(target.profileId);
+  };
+
+  return (
+    <section className="backup" aria-labelledby="backup-title">
+      <h2 id="backup-title">Move settings between computers</h2>
+      <div className="backup__actions">
+        <button
+          className="btn"
+          onClick={() => {
+            const doc = exportSettings(config, profile);
+            const date = doc.exportedAt.slice(0, 10);
+            downloadFile(`agp-settings-${fileSlug(owner)}-${date}.json`, JSON.stringify(doc, null, 2));
+            a11y.announce(`Exported settings for ${owner}`);
+          }}
+        >
+          Export {owner}'s settings
+        </button>
+        <label className="btn backup__file">
+          Import settings file
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={async (e) => {
+              const file = e.currentTarget.files?.[0];
+              e.currentTarget.value = '';
+              if (!file) return;
+              try {
+                setParsed(parseSettings(await file.text(), games));
+                setError(null);
+              } catch (err) {
+                setParsed(null);
+                setError((err as Error).message);
+              }
+            }}
+          />
+        </label>
+      </div>
+
+      {error && (
+        <p className="backup__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {parsed && (
+        <div className="backup__preview" role="region" aria-label="Import preview">
+          <p>
+            File from {fileProfile?.name ?? 'Guest'}
+            {parsed.exportedAt ? `, exported ${new Date(parsed.exportedAt).toLocaleDateString()}` : ''}.
+          </p>
+          <fieldset className="tc-group">
+            <legend>How to import</legend>
+            <label>
+              <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} /> Merge
+              with {owner}'s current settings
+            </label>
+            <label>
+              <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />{' '}
+              Replace all of {owner}'s settings
+            </label>
+          </fieldset>
+          <table className="data-table">
+            <caption>Changes</caption>
+            <thead>
+              <tr>
+                <th scope="col">Item</th>
+                <th scope="col">Result</th>
+                <th scope="col">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((c) => (
+                <tr key={c.name}>
+                  <th scope="row">{c.label}</th>
+                  <td>{KIND_TEXT[c.kind]}</td>
+                  <td>{c.note ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="backup__actions">
+            <button className="btn" onClick={() => finish(config, `Imported settings into ${owner}`)}>
+              Import into {owner}
+            </button>
+            {fileProfile && (
+              <button
+                className="btn"
+                onClick={() => {
+                  const created = createProfile(fileProfile);
+                  finish(new ConfigManager(created.id), `Added learner ${created.name} from file`);
+                }}
+              >
+                Add as new learner {fileProfile.name}
+              </button>
+            )}
+            <button className="btn btn--quiet" onClick={() => setParsed(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
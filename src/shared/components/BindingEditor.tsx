@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from 'react';
+import { InputManager } from '../../core/InputManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+import {
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  RESERVED_KEYS,
+  bindingId,
+  conflictsFor,
+  describeBinding,
+  findConflicts,
+  type Binding,
+  type Bindings,
+  type InputAction
+} from '../../core/InputBindings';
+
+type Props = {
+  input: InputManager;
+  a11y: AccessibilityManager;
+  onChange?: (bindings: Bindings) => void;
+};
+
+const labelOf = (action: InputAction) => INPUT_ACTIONS.find((a) => a.action === action)?.label ?? action;
+
+export function BindingEditor({ input, a11y, onChange }: Props) {
+  const [bindings, setBindings] = useState(() => input.getBindings());
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+  const [pending, setPending] = useState<{ action: InputAction; binding: Binding; others: InputAction[] } | null>(null);
+  const [status, setStatus] = useState('');
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const say = (message: string) => {
+    setStatus(message);
+    a11y.announce(message);
+  };
+
+  const commit = (next: Bindings, message: string) => {
+    input.setBindings(next);
+    setBindings(input.getBindings());
+    onChange?.(input.getBindings());
+    say(message);
+  };
+
+  const add = (action: InputAction, b: Binding, moveFrom: InputAction[] = []) => {
+    const next = { ...bindings };
+    for (const other of moveFrom) next[other] = next[other].filter((x) => bindingId(x) !== bindingId(b));
+    next[action] = [...next[action], b];
+    commit(next, `${describeBinding(b)} set for ${labelOf(action)}`);
+  };
+
+  const startCapture = (action: InputAction) => {
+    setPending(null);
+    setCapturing(action);
+    say(`Press the key or gamepad button for ${labelOf(action)}. Escape cancels.`);
+    cancelRef.current?.();
+    cancelRef.current = input.captureNext((b) => {
+      setCapturing(null);
+      if (!b) {
+        say('Cancelled');
+        return;
+      }
+      if (b.kind === 'key' && RESERVED_KEYS.includes(b.key)) {
+        say(`${describeBinding(b)} can't be used`);
+        return;
+      }
+      if (bindings[action].some((x) => bindingId(x) === bindingId(b))) {
+        say(`${describeBinding(b)} is already set for ${labelOf(action)}`);
+        return;
+      }
+      const others = conflictsFor(bindings, action, b);
+      if (others.length) setPending({ action, binding: b, others });
+      else add(action, b);
+    });
+  };
+
+  const conflicts = findConflicts(bindings);
+
+  return (
+    <section className="bindings" aria-labelledby="bindings-title">
+      <h3 id="bindings-title">Keys and buttons</h3>
+      <table className="data-table">
+        <caption className="sr-only">Keys and buttons for each action</caption>
+        <thead>
+          <tr>
+            <th scope="col">Action</th>
+            <th scope="col">Keys and buttons</th>
+            <th scope="col">
+              <span className="sr-only">Add</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <tr key={action}>
+              <th scope="row">{label}</th>
+              <td>
+                {bindings[action].length === 0 && <span>Not set</span>}
+                <ul className="bindings__list">
+                  {bindings[action].map((b) => {
+                    const shared = conflicts.get(bindingId(b))?.filter((a) => a !== action) ?? [];
+                    return (
+                      <li key={bindingId(b)} className={`binding-chip${shared.length ? ' is-conflict' : ''}`}>
+                        {describeBinding(b)}
+                        {shared.length > 0 && <span> (also {shared.map(labelOf).join(', ')})</span>}
+                        <button
+                          className="btn btn--quiet"
+                          aria-label={`Remove ${describeBinding(b)} from ${label}`}
+                          onClick={() =>
+                            commit(
+                              { ...bindings, [action]: bindings[action].filter((x) => bindingId(x) !== bindingId(b)) },
+                              `${describeBinding(b)} removed from ${label}`
+                            )
+                          }
+                        >
+                          ×
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </td>
+              <td>
+                <button
+                  className="btn"
+                  aria-label={`Add key or button for ${label}`}
+                  aria-pressed={capturing === action}
+                  onClick={() => startCapture(action)}
+                >
+                  {capturing === action ? 'Press now…' : 'Add'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {pending && (
+        <div className="bindings__conflict" role="alert">
+          <p>
+            {describeBinding(pending.binding)} is already used for {pending.others.map(labelOf).join(', ')}.
+          </p>
+          <div className="backup__actions">
+            <button
+              className="btn"
+              onClick={() => {
+                add(pending.action, pending.binding, pending.others);
+                setPending(null);
+              }}
+            >
+              Move to {labelOf(pending.action)}
+            </button>
+            <button
+              className="btn"
+              onClick={() => {
+                setPending(null);
+                say('Cancelled');
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      <p className="bindings__status">{status}</p>
+      <div>
+        <button className="btn" onClick={() => commit(DEFAULT_BINDINGS, 'Keys and buttons restored to defaults')}>
+          Restore defaults
+        </button>
+      </div>
+    </section>
+  );
+}
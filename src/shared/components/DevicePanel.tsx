@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { InputManager, type DeviceSettings } from '../../core/InputManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+
+type Props = {
+  input: InputManager;
+  a11y: AccessibilityManager;
+  onChange?: (devices: DeviceSettings) => void;
+};
+
+const ROLES = [
+  { key: 'movement', label: 'Movement from', anyLabel: 'First connected gamepad' },
+  { key: 'buttons', label: 'Buttons from', anyLabel: 'Any connected gamepad' }
+] as const;
+
+export function DevicePanel({ input, a11y, onChange }: Props) {
+  const [pads, setPads] = useState(() => input.listGamepads());
+  const [devices, setDevices] = useState(() => input.getDevices());
+
+  // Browsers only list a pad after one of its buttons has been pressed
+  useEffect(() => {
+    const refresh = () => setPads(input.listGamepads());
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, [input]);
+
+  const update = (patch: Partial<DeviceSettings>) => {
+    input.setDevices(patch);
+    const next = input.getDevices();
+    setDevices(next);
+    onChange?.(next);
+  };
+
+  const ids = [...new Set(pads.map((p) => p.id))];
+
+  return (
+    <fieldset className="input-panel">
+      <legend>Gamepads</legend>
+      {pads.length === 0 ? (
+        <p className="input-panel__hint" role="status">
+          No gamepad found. Connect one and press any of its buttons.
+        </p>
+      ) : (
+        <ul className="input-panel__hint">
+          {pads.map((p) => (
+            <li key={p.index}>
+              {p.index + 1}: {p.id}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="input-panel__hint">
+        Use one gamepad to move and another, such as a button box, to select. Choices are remembered for this learner.
+      </p>
+      {ROLES.map(({ key, label, anyLabel }) => {
+        const chosen = devices[key];
+        return (
+          <label key={key} className="input-panel__row">
+            {label}
+            <select
+              value={chosen ?? ''}
+              onChange={(e) => {
+                const id = e.currentTarget.value || null;
+                update({ [key]: id });
+                a11y.announce(`${label} ${id ?? anyLabel.toLowerCase()}`);
+              }}
+            >
+              <option value="">{anyLabel}</option>
+              {ids.map((id) => (
+                <option key={id} value={id}>
+                  {id}
+                </option>
+              ))}
+              {chosen && !ids.includes(chosen) && <option value={chosen}>{chosen} (not connected)</option>}
+            </select>
+          </label>
+        );
+      })}
+    </fieldset>
+  );
+}
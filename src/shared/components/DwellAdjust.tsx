@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { chooseOption, DwellManager, stepRange, type DwellAdjustable } from '../../core/DwellManager';
+
+// The control's own label, without the option text a wrapping <label> also contains
+function fieldName(el: DwellAdjustable) {
+  const aria = el.getAttribute('aria-label');
+  if (aria) return aria;
+  const label = el.labels?.[0];
+  if (!label) return el.name || 'setting';
+  const copy = label.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll('input, select, output').forEach((n) => n.remove());
+  return copy.textContent?.trim() || el.name || 'setting';
+}
+
+/**
+ * Buttons for the slider or drop-down last chosen by dwelling, so dwell users
+ * can change it without dragging or opening a list.
+ */
+export function DwellAdjust({ dwell }: { dwell: DwellManager }) {
+  const [field, setField] = useState<DwellAdjustable | null>(null);
+  const [steps, setSteps] = useState(0);
+  const [valueText, setValueText] = useState('');
+
+  useEffect(() => {
+    const unsub = dwell.onAdjust(setField);
+    return () => {
+      unsub();
+    };
+  }, [dwell]);
+
+  useEffect(() => {
+    if (!field) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setField(null);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [field]);
+
+  // read after the owner has rendered the new value
+  useEffect(() => {
+    if (field) setValueText(field.getAttribute('aria-valuetext') ?? field.value);
+  }, [field, steps]);
+
+  if (!field || !field.isConnected) return null;
+  const name = fieldName(field);
+  const rect = field.getBoundingClientRect();
+  const done = () => {
+    setField(null);
+    field.focus({ preventScroll: true });
+  };
+  const step = (direction: -1 | 1) => {
+    stepRange(field as HTMLInputElement, direction);
+    setSteps((n) => n + 1);
+  };
+
+  return (
+    <div className="dwell-adjust" role="group" aria-label={`Change ${name}`} style={{ left: rect.left, top: rect.bottom }}>
+      {field instanceof HTMLSelectElement ? (
+        [...field.options].map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            className="btn"
+            aria-pressed={o.selected}
+            disabled={o.disabled}
+            onClick={() => {
+              chooseOption(field, o.value);
+              done();
+            }}
+          >
+            {o.text}
+          </button>
+        ))
+      ) : (
+        <>
+          <button type="button" className="btn" data-dwell-repeat aria-label={`Less ${name}`} onClick={() => step(-1)}>
+            −
+          </button>
+          <output className="dwell-adjust__value">{valueText}</output>
+          <button type="button" className="btn" data-dwell-repeat aria-label={`More ${name}`} onClick={() => step(1)}>
+            +
+          </button>
+        </>
+      )}
+      <button type="button" className="btn btn--quiet" onClick={done}>
+        Done
+      </button>
+    </div>
+  );
+}
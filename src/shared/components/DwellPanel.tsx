@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_DWELL, DwellManager, type DwellSettings } from '../../core/DwellManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+
+type Props = {
+  dwell: DwellManager;
+  a11y: AccessibilityManager;
+  onChange?: (settings: DwellSettings) => void;
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+export function DwellPanel({ dwell, a11y, onChange }: Props) {
+  const [settings, setSettings] = useState(() => dwell.getSettings());
+  useEffect(() => {
+    // the toolbar toggle changes the same settings
+    const unsub = dwell.onSettings(setSettings);
+    return () => {
+      unsub();
+    };
+  }, [dwell]);
+
+  const update = (patch: Partial<DwellSettings>) => {
+    dwell.setSettings(patch);
+    onChange?.(dwell.getSettings());
+  };
+
+  return (
+    <fieldset className="input-panel">
+      <legend>Dwell click</legend>
+      <p className="input-panel__hint">
+        For eye-gaze and head pointers: resting on a button or control clicks it. Turn it on or off from the accessibility
+        toolbar.
+      </p>
+      <label className="input-panel__check">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => {
+            update({ enabled: e.currentTarget.checked });
+            a11y.announce(`Dwell click ${e.currentTarget.checked ? 'on' : 'off'}`);
+          }}
+        />
+        Dwell click on
+      </label>
+      <label className="input-panel__row">
+        Dwell time
+        <input
+          type="range"
+          min={300}
+          max={5000}
+          step={100}
+          value={settings.dwellMs}
+          aria-valuetext={seconds(settings.dwellMs)}
+          onChange={(e) => update({ dwellMs: Number(e.currentTarget.value) })}
+        />
+        <span>{seconds(settings.dwellMs)}</span>
+      </label>
+      <label className="input-panel__row">
+        Wait between clicks
+        <input
+          type="range"
+          min={0}
+          max={5000}
+          step={100}
+          value={settings.cooldownMs}
+          aria-valuetext={seconds(settings.cooldownMs)}
+          onChange={(e) => update({ cooldownMs: Number(e.currentTarget.value) })}
+        />
+        <span>{seconds(settings.cooldownMs)}</span>
+      </label>
+      <div>
+        <button
+          className="btn"
+          onClick={() => {
+            update({ dwellMs: DEFAULT_DWELL.dwellMs, cooldownMs: DEFAULT_DWELL.cooldownMs });
+            a11y.announce('Dwell timing reset to defaults');
+          }}
+        >
+          Reset timing
+        </button>
+      </div>
+    </fieldset>
+  );
+}
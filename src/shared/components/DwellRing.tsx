@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { DwellManager, type DwellProgress } from '../../core/DwellManager';
+
+const R = 26;
+const CIRCUMFERENCE = 2 * Math.PI * R;
+
+/** Radial progress ring that fills at the pointer while dwelling on a control. */
+export function DwellRing({ dwell }: { dwell: DwellManager }) {
+  const [state, setState] = useState<DwellProgress>(null);
+
+  useEffect(() => {
+    const unsub = dwell.onProgress(setState);
+    return () => {
+      unsub();
+    };
+  }, [dwell]);
+
+  if (!state) return null;
+  return (
+    <svg className="dwell-ring" style={{ left: state.x, top: state.y }} viewBox="-32 -32 64 64" aria-hidden="true">
+      <circle r={R} className="dwell-ring__track" />
+      <circle
+        r={R}
+        className="dwell-ring__fill"
+        strokeDasharray={CIRCUMFERENCE}
+        strokeDashoffset={CIRCUMFERENCE * (1 - state.progress)}
+      />
+    </svg>
+  );
+}
@@ -1,10 +1,15 @@
-import { useEffect, useRef, useState } from 'react';
-import type { GameDefinition } from '../../types/game';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GameConfig, GameDefinition, GameState } from '../../types/game';
 import { AccessibilityManager } from '../../core/AccessibilityManager';
 import { ThemeManager } from '../../core/ThemeManager';
 import { ConfigManager } from '../../core/ConfigManager';
-import { InputManager } from '../../core/InputManager';
+import { InputManager, type InputSource, type PadInfo } from '../../core/InputManager';
 import { GameRegistry } from '../../core/GameRegistry';
+import { SessionHistory } from '../../core/SessionHistory';
+import { PresetLibrary } from '../../core/PresetLibrary';
+import { AdaptiveDifficulty, adaptableProperties, sanitizeLog, type AdaptiveSettings } from '../../core/AdaptiveDifficulty';
+import { useGameEngine } from '../hooks/useGameEngine';
+import { ReconnectPrompt } from './ReconnectPrompt';
 
 type Managers = {
   a11y: AccessibilityManager;
@@ -14,31 +19,234 @@ type Managers = {
   registry: GameRegistry;
 };
 
+function statusLabel({ started, paused, completed }: GameState) {
+  if (started) return paused ? 'Paused' : 'Playing';
+  return completed ? 'Finished' : 'Ready';
+}
+
 export function GameShell({
   gameDef,
-  managers
+  managers,
+  showSettings = false,
+  locked = false,
+  preset
 }: {
   gameDef: GameDefinition | null;
   managers: Managers;
+  showSettings?: boolean; // opened from a settings link: hold play and focus the panel
+  locked?: boolean; // supervised mode: no settings and no way out of full screen
+  preset?: string; // preset id or name from a link
 }) {
-  const [state, setState] = useState({ score: 0, paused: true });
-  const gameRef = useRef<ReturnType<GameDefinition['createInstance']> | null>(null);
+  // created during render so the game component can reach its engine on first mount
+  const instance = useMemo(() => gameDef?.createInstance() ?? null, [gameDef]);
+  const gameRef = useRef<ReturnType<GameDefinition['createInstance']> | null>(instance);
+  const events = instance?.engine.events;
+  const presets = useMemo(
+    () => (gameDef ? new PresetLibrary(managers.config, gameDef) : null),
+    [gameDef, managers.config]
+  );
+  // only for games whose schema marks properties as adaptable
+  const adaptive = useMemo(() => {
+    if (!gameDef || !adaptableProperties(gameDef.configSchema).length) return null;
+    const { log, ...settings } = managers.config.loadValue<Partial<AdaptiveSettings> & { log?: unknown }>(
+      `adaptive:${gameDef.id}`,
+      {}
+    );
+    return new AdaptiveDifficulty(gameDef.configSchema, settings, sanitizeLog(log));
+  }, [gameDef, managers.config]);
+  // the settings the game is running with, saved or not; adaptive difficulty and history read it
+  const configRef = useRef<GameConfig>({});
+  // re-renders on every lifecycle or score change; what is shown comes from IGame.getState
+  const engineState = useGameEngine(instance?.engine);
+  const state = instance?.getState() ?? engineState;
   const stageRef = useRef<HTMLDivElement>(null);
   const shellRef = useRef<HTMLElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const startedRef = useRef(false);
+  const startedAtRef = useRef<number | null>(null);
+  // set while play is held because a gamepad in use went away
+  const [lostPad, setLostPad] = useState<{ pad: PadInfo; returned: boolean } | null>(null);
+  const [autoResume, setAutoResume] = useState(true);
+
+  // Store the finished session in the active profile's history
+  const recordSession = () => {
+    const game = gameRef.current;
+    if (!gameDef || !game || startedAtRef.current == null) return;
+    new SessionHistory(managers.config).add({
+      gameId: gameDef.id,
+      startedAt: startedAtRef.current,
+      endedAt: Date.now(),
+      metrics: game.getMetrics(),
+      config: { ...configRef.current }
+    });
+    startedAtRef.current = null;
+  };
+
+  // The Reset button and the learner's bound reset key both end the session here
+  const resetGame = () => {
+    recordSession();
+    setLostPad(null);
+    gameRef.current?.reset();
+  };
 
   useEffect(() => {
-    if (!gameDef) return;
-    const game = gameDef.createInstance();
+    if (!gameDef || !instance) return;
+    const game = instance;
     gameRef.current = game;
-    game.initialize({});
+    configRef.current = managers.config.load(gameDef.id, gameDef.configSchema, gameDef.migrations).config;
+    game.initialize(configRef.current);
     managers.a11y.announce(`${gameDef.name} loaded`);
+    window.addEventListener('pagehide', recordSession);
     return () => {
+      window.removeEventListener('pagehide', recordSession);
+      recordSession();
       game.cleanup();
       gameRef.current = null;
     };
-  }, [gameDef, managers.a11y]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameDef, instance, managers.a11y]);
+
+  // Announcements and session recording observe the game's events
+  useEffect(() => {
+    if (!events) return;
+    const offs = [
+      events.on('start', () => {
+        startedAtRef.current = Date.now();
+        managers.a11y.announce('Game started');
+      }),
+      events.on('pause', () => managers.a11y.announce('Game paused')),
+      events.on('resume', () => managers.a11y.announce('Game resumed')),
+      events.on('reset', () => {
+        // the Reset button records first; a reset from inside the game has already cleared its metrics
+        startedAtRef.current = null;
+        managers.a11y.announce('Game reset');
+      }),
+      events.on('completed', (e) => {
+        recordSession();
+        managers.a11y.announce(`Game complete. Score ${e.state.score}`);
+      })
+    ];
+    return () => offs.forEach((off) => off());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [events, managers.a11y]);
+
+  // A preset named in a link replaces the saved settings
+  useEffect(() => {
+    if (!preset || !presets || !events) return;
+    const chosen = presets.find(preset);
+    if (!chosen) return;
+    presets.select(chosen.id);
+    events.emit('presetSelected', { presetId: chosen.id, config: presets.resolve(chosen) });
+    managers.a11y.announce(`Preset ${chosen.name}`);
+  }, [preset, presets, events, managers.a11y]);
+
+  // Settings edited in the game's panel reach the instance as well as its component
+  useEffect(() => {
+    if (!events || !instance) return;
+    const unsub = events.on('configChanged', (e) => {
+      configRef.current = e.config;
+      instance.updateConfig(e.config);
+    });
+    return () => {
+      unsub();
+    };
+  }, [events, instance]);
+
+  // Adaptive difficulty watches finished trials and sends back nudged settings
+  useEffect(() => {
+    if (!events || !adaptive || !gameDef) return;
+    const offs = [
+      events.on('trial', (trial) => {
+        const result = adaptive.observe(trial, configRef.current);
+        if (result) events.emit('adapted', result);
+      }),
+      adaptive.onChange(() => {
+        if (!managers.config.getConsent()) return;
+        managers.config.saveValue(`adaptive:${gameDef.id}`, { ...adaptive.getSettings(), log: adaptive.getLog() });
+      })
+    ];
+    return () => offs.forEach((off) => off());
+  }, [events, adaptive, gameDef, managers.config]);
+
+  useEffect(() => {
+    const unsub = managers.input.onAction((action) => {
+      if (action === 'reset') resetGame();
+    });
+    return () => {
+      unsub();
+    };
+    // `resetGame` only reaches the game through refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managers.input, gameDef]);
+
+  // Tell the game which kind of input the learner has switched to
+  useEffect(() => {
+    if (!events) return;
+    let last: InputSource | null = null;
+    const seen = (source: InputSource) => {
+      if (source === last) return;
+      last = source;
+      events.emit('inputSourceChanged', { source });
+    };
+    const offMove = managers.input.onMove((v, source) => {
+      if (Math.hypot(v.x, v.y) > 0.0001) seen(source);
+    });
+    const offPoint = managers.input.onPoint(() => seen('pointer'));
+    return () => {
+      offMove();
+      offPoint();
+    };
+  }, [events, managers.input]);
+
+  const play = () => {
+    const game = gameRef.current;
+    if (!game) return;
+    setLostPad(null);
+    if (!game.getState().started) game.start();
+    else game.resume();
+    // Move keyboard focus to the stage automatically
+    requestAnimationFrame(() => stageRef.current?.focus());
+  };
+
+  // Hold the game when the gamepad in use is unplugged, pick up again when it returns
+  useEffect(() => {
+    const unsub = managers.input.onDevice((e) => {
+      const game = gameRef.current;
+      if (e.type === 'disconnected' && e.active && game) {
+        events?.emit('deviceDisconnected', { pad: e.pad });
+        const { started, paused } = game.getState();
+        if (!started || paused) return;
+        setLostPad({ pad: e.pad, returned: false });
+        game.pause();
+        managers.a11y.announce(
+          `Gamepad disconnected: ${e.pad.id}. Game paused. Reconnect it, or continue with the mouse or keyboard.`
+        );
+      } else if (e.type === 'connected' && lostPad && e.pad.id === lostPad.pad.id) {
+        if (autoResume) {
+          play();
+          managers.a11y.announce('Gamepad reconnected. Game resumed');
+        } else {
+          setLostPad({ pad: e.pad, returned: true });
+          managers.a11y.announce('Gamepad reconnected. Press Resume to carry on');
+        }
+      }
+    });
+    return () => {
+      unsub();
+    };
+    // `play` only reaches the game through gameRef
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managers.input, managers.a11y, events, lostPad, autoResume]);
+
+  // Games show their settings while not playing
+  useEffect(() => {
+    if (!showSettings) return;
+    gameRef.current?.pause();
+    const raf = requestAnimationFrame(() => {
+      const panel = stageRef.current?.querySelector('[role="region"][aria-label="Settings"]');
+      panel?.querySelector<HTMLElement>('input, select, button')?.focus();
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [showSettings, instance]);
 
   // Keep fullscreen state in sync even when user presses ESC or uses OS UI
   useEffect(() => {
@@ -60,57 +268,23 @@ export function GameShell({
   }
 
   return (
-  <section ref={shellRef as any} className="game-area" aria-label={`${gameDef.name} game`} tabIndex={0}>
+  <section ref={shellRef} className={`game-area ${locked ? 'game-area--locked' : ''}`} aria-label={`${gameDef.name} game`} tabIndex={0}>
       <header className="game-area__header" role="group">
         <div className="game-controls">
       <button
             className="btn"
-            aria-pressed={!state.paused}
-            onClick={() => {
-              if (state.paused) {
-                if (!startedRef.current) {
-                  gameRef.current?.start();
-                  startedRef.current = true;
-                  managers.a11y.announce('Game started');
-                  window.dispatchEvent(
-                    new CustomEvent('game:state', { detail: { action: 'start', id: gameDef.id } })
-                  );
-                } else {
-                  gameRef.current?.resume();
-                  managers.a11y.announce('Game resumed');
-                  window.dispatchEvent(
-                    new CustomEvent('game:state', { detail: { action: 'resume', id: gameDef.id } })
-                  );
-                }
-                setState((s) => ({ ...s, paused: false }));
-        // Move keyboard focus to the stage automatically
-        requestAnimationFrame(() => stageRef.current?.focus());
-              } else {
-                gameRef.current?.pause();
-                managers.a11y.announce('Game paused');
-                setState((s) => ({ ...s, paused: true }));
-                window.dispatchEvent(
-                  new CustomEvent('game:state', { detail: { action: 'pause', id: gameDef.id } })
-                );
-              }
-            }}
+            aria-pressed={state.started && !state.paused}
+            onClick={() => (state.started && !state.paused ? gameRef.current?.pause() : play())}
           >
-            {state.paused ? (startedRef.current ? 'Resume' : 'Play') : 'Pause'}
+            {!state.started ? 'Play' : state.paused ? 'Resume' : 'Pause'}
           </button>
           <button
             className="btn"
-            onClick={() => {
-              gameRef.current?.reset();
-              managers.a11y.announce('Game reset');
-              setState({ score: 0, paused: true });
-              startedRef.current = false;
-              window.dispatchEvent(
-                new CustomEvent('game:state', { detail: { action: 'reset', id: gameDef.id } })
-              );
-            }}
+            onClick={resetGame}
           >
             Reset
           </button>
+      {!locked && (
       <button
             className="btn"
             onClick={async () => {
@@ -130,7 +304,11 @@ export function GameShell({
           >
             {isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
           </button>
+      )}
         </div>
+        <p className="game-area__status">
+          <span>{statusLabel(state)}</span> <span>Score {state.score}</span>
+        </p>
       </header>
 
       <div
@@ -141,10 +319,19 @@ export function GameShell({
         tabIndex={-1}
       >
         {gameDef.component ? (
-          <gameDef.component managers={managers} gameRef={gameRef} />
+          <gameDef.component managers={managers} gameRef={gameRef} game={instance} presets={presets} adaptive={adaptive} />
         ) : (
           <div id="stage-placeholder" />
         )}
+        {lostPad && (
+          <ReconnectPrompt
+            pad={lostPad.pad}
+            returned={lostPad.returned}
+            autoResume={autoResume}
+            onAutoResumeChange={setAutoResume}
+            onResume={play}
+          />
+        )}
       </div>
 
   {/* Score footer removed per design request */}
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { KioskManager, UNLOCK_CHORD, UNLOCK_HOLD_MS } from '../../core/KioskManager';
+
+type Props = {
+  kiosk: KioskManager;
+  gameName: string | null;
+  onLock: () => void;
+};
+
+const chordLabel = UNLOCK_CHORD.map((k) => (k === 'Control' ? 'Ctrl' : k.toUpperCase())).join(' + ');
+
+export function KioskPanel({ kiosk, gameName, onLock }: Props) {
+  const [pin, setPin] = useState('');
+
+  return (
+    <fieldset className="input-panel">
+      <legend>Supervised mode</legend>
+      <p className="input-panel__hint">
+        Keeps the learner in one game, full screen, with settings and menus hidden.{' '}
+        {pin
+          ? `To unlock, hold ${chordLabel} for ${UNLOCK_HOLD_MS / 1000} seconds, or press the Supervisor button and enter the PIN.`
+          : `To unlock, hold ${chordLabel} or the Supervisor button for ${UNLOCK_HOLD_MS / 1000} seconds.`}
+      </p>
+      <label className="input-panel__row">
+        Supervisor PIN (optional)
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={8}
+          value={pin}
+          onChange={(e) => setPin(e.currentTarget.value.replace(/\D/g, ''))}
+        />
+      </label>
+      <div>
+        <button
+          className="btn"
+          disabled={!gameName}
+          onClick={() => {
+            kiosk.setPin(pin);
+            onLock();
+          }}
+        >
+          Lock to {gameName ?? 'a game'}
+        </button>
+      </div>
+    </fieldset>
+  );
+}
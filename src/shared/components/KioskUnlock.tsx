@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react';
+import { KioskManager, UNLOCK_HOLD_MS } from '../../core/KioskManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+
+type Props = {
+  kiosk: KioskManager;
+  a11y: AccessibilityManager;
+};
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/** Supervisor exit from supervised mode: a hold-to-unlock button, or a large keypad once a PIN is set. */
+export function KioskUnlock({ kiosk, a11y }: Props) {
+  const [open, setOpen] = useState(false);
+  const [entry, setEntry] = useState('');
+  const [wrong, setWrong] = useState(false);
+  const [fullscreen, setFullscreen] = useState(() => !!document.fullscreenElement);
+  const firstKeyRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const sync = () => setFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', sync);
+    return () => document.removeEventListener('fullscreenchange', sync);
+  }, []);
+
+  useEffect(() => {
+    if (open) firstKeyRef.current?.focus();
+  }, [open]);
+
+  const close = () => {
+    setOpen(false);
+    setEntry('');
+    setWrong(false);
+  };
+
+  const press = (digit: string) => {
+    setWrong(false);
+    setEntry((e) => (e.length < 8 ? e + digit : e));
+  };
+
+  const submit = () => {
+    if (kiosk.unlock(entry)) {
+      a11y.announce('Supervised mode off');
+      return;
+    }
+    setEntry('');
+    setWrong(true);
+  };
+
+  return (
+    <>
+      <button
+        className="btn kiosk-unlock"
+        onPointerDown={() => kiosk.startHold()}
+        onPointerUp={() => kiosk.endHold()}
+        onPointerLeave={() => kiosk.endHold()}
+        onPointerCancel={() => kiosk.endHold()}
+        onClick={() => {
+          if (kiosk.hasPin()) setOpen(true);
+          else a11y.announce(`Hold for ${UNLOCK_HOLD_MS / 1000} seconds to unlock`);
+        }}
+      >
+        Supervisor
+      </button>
+
+      {!fullscreen && document.fullscreenEnabled && (
+        <button className="btn kiosk-fullscreen" onClick={() => document.documentElement.requestFullscreen?.()}>
+          Back to full screen
+        </button>
+      )}
+
+      {open && (
+        <div className="kiosk-keypad" role="dialog" aria-modal="true" aria-labelledby="kiosk-keypad-title">
+          <h2 id="kiosk-keypad-title">Supervisor unlock</h2>
+          <p aria-live="polite">
+            {wrong ? 'Wrong PIN. Try again.' : entry ? `${entry.length} digits entered` : 'Enter the PIN'}
+          </p>
+          <p className="kiosk-keypad__entry" aria-hidden="true">
+            {'•'.repeat(entry.length) || ' '}
+          </p>
+          <div className="kiosk-keypad__keys">
+            {KEYS.map((k, i) => (
+              <button key={k} ref={i === 0 ? firstKeyRef : undefined} className="btn" onClick={() => press(k)}>
+                {k}
+              </button>
+            ))}
+            <button className="btn" onClick={() => setEntry('')}>
+              Clear
+            </button>
+            <button className="btn" onClick={() => press('0')}>
+              0
+            </button>
+            <button className="btn" disabled={!entry} onClick={submit}>
+              Unlock
+            </button>
+          </div>
+          <button className="btn" onClick={close}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
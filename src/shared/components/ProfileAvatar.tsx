@@ -0,0 +1,19 @@
+import type { ProfileIcon } from '../../core/ProfileManager';
+
+const ICON_PATHS: Record<ProfileIcon, string> = {
+  star: 'M50 12 61 38 89 40 67 58 74 86 50 71 26 86 33 58 11 40 39 38Z',
+  heart: 'M50 84 18 52C6 40 12 18 30 18c9 0 16 6 20 12 4-6 11-12 20-12 18 0 24 22 12 34Z',
+  circle: 'M50 16a34 34 0 1 0 0.01 0Z',
+  square: 'M20 20h60v60H20Z',
+  triangle: 'M50 14 86 82H14Z',
+  moon: 'M62 12a38 38 0 1 0 26 58A30 30 0 1 1 62 12Z'
+};
+
+export function ProfileAvatar({ color, icon, size = 64 }: { color: string; icon?: ProfileIcon; size?: number }) {
+  return (
+    <svg className="profile-avatar" width={size} height={size} viewBox="0 0 100 100" aria-hidden="true">
+      <circle cx="50" cy="50" r="48" fill={color} stroke="var(--color-border)" strokeWidth="4" />
+      {icon && <path d={ICON_PATHS[icon]} transform="translate(20 20) scale(0.6)" fill="#ffffff" />}
+    </svg>
+  );
+}
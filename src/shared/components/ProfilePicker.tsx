@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { PROFILE_COLORS, PROFILE_ICONS, type Profile, type ProfileIcon } from '../../core/ProfileManager';
+import { ProfileAvatar } from './ProfileAvatar';
+
+export function ProfilePicker({
+  profiles,
+  activeId,
+  onSelect,
+  onCreate,
+  onRemove
+}: {
+  profiles: Profile[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (data: Omit<Profile, 'id'>) => void;
+  onRemove: (id: string) => void;
+}) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<string>(PROFILE_COLORS[0].value);
+  const [icon, setIcon] = useState<ProfileIcon | ''>('star');
+
+  return (
+    <section className="profile-picker" aria-labelledby="profile-picker-title">
+      <h2 id="profile-picker-title">Who is playing?</h2>
+      <ul className="profile-grid">
+        {profiles.map((p) => (
+          <li key={p.id} className="profile-grid__item">
+            <button
+              className={`btn profile-card ${activeId === p.id ? 'is-active' : ''}`}
+              aria-pressed={activeId === p.id}
+              onClick={() => onSelect(p.id)}
+            >
+              <ProfileAvatar color={p.color} icon={p.icon} size={72} />
+              <span className="profile-card__name">{p.name}</span>
+            </button>
+            <button
+              className="btn btn--quiet"
+              onClick={() => {
+                if (window.confirm(`Remove ${p.name} and all of their settings?`)) onRemove(p.id);
+              }}
+            >
+              Remove {p.name}
+            </button>
+          </li>
+        ))}
+        <li className="profile-grid__item">
+          <button
+            className={`btn profile-card ${activeId === null ? 'is-active' : ''}`}
+            aria-pressed={activeId === null}
+            onClick={() => onSelect(null)}
+          >
+            <ProfileAvatar color="#555555" size={72} />
+            <span className="profile-card__name">Guest</span>
+          </button>
+        </li>
+      </ul>
+
+      <form
+        className="profile-form"
+        onSubmit={(e) => {
+          e.preventDefault();
+          const trimmed = name.trim();
+          if (!trimmed) return;
+          onCreate({ name: trimmed, color, icon: icon || undefined });
+          setName('');
+        }}
+      >
+        <fieldset className="tc-group">
+          <legend>Add a learner</legend>
+          <label className="tc-row">
+            Name
+            <input type="text" value={name} maxLength={40} onChange={(e) => setName(e.currentTarget.value)} />
+          </label>
+          <div className="tc-row" role="radiogroup" aria-label="Colour">
+            <span aria-hidden="true">Colour</span>
+            <div className="profile-swatches">
+              {PROFILE_COLORS.map((c) => (
+                <label key={c.value} className="profile-swatch" style={{ background: c.value }}>
+                  <input
+                    type="radio"
+                    name="profile-color"
+                    value={c.value}
+                    checked={color === c.value}
+                    onChange={() => setColor(c.value)}
+                    aria-label={c.name}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className="tc-row">
+            Icon
+            <select value={icon} onChange={(e) => setIcon(e.currentTarget.value as ProfileIcon | '')}>
+              <option value="">None</option>
+              {PROFILE_ICONS.map((i) => (
+                <option key={i} value={i}>
+                  {i.charAt(0).toUpperCase() + i.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="submit" className="btn" disabled={!name.trim()}>
+            Add learner
+          </button>
+        </fieldset>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import type { PadInfo } from '../../core/InputManager';
+
+type Props = {
+  pad: PadInfo;
+  returned: boolean; // the pad is back but auto-resume is off
+  autoResume: boolean;
+  onAutoResumeChange: (on: boolean) => void;
+  onResume: () => void;
+};
+
+/** Large prompt over a game held because its gamepad was unplugged. */
+export function ReconnectPrompt({ pad, returned, autoResume, onAutoResumeChange, onResume }: Props) {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => buttonRef.current?.focus(), [returned]);
+
+  return (
+    <div className="reconnect-prompt" role="alertdialog" aria-labelledby="reconnect-title" aria-describedby="reconnect-body">
+      <h2 id="reconnect-title">{returned ? 'Gamepad reconnected' : 'Gamepad disconnected'}</h2>
+      <p id="reconnect-body">
+        {returned
+          ? `${pad.id} is back. Resume when ready.`
+          : `${pad.id} stopped responding. Plug it back in, or carry on with the mouse or keyboard.`}
+      </p>
+      {!returned && (
+        <label className="reconnect-prompt__option">
+          <input type="checkbox" checked={autoResume} onChange={(e) => onAutoResumeChange(e.currentTarget.checked)} />
+          Resume automatically when it reconnects
+        </label>
+      )}
+      <button ref={buttonRef} className="btn" onClick={onResume}>
+        {returned ? 'Resume' : 'Continue without gamepad'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { InputManager, scanDirections } from '../../core/InputManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+
+/** Visual scan ring shown over the game while switch scanning is on. */
+export function ScanIndicator({ input, a11y }: { input: InputManager; a11y: AccessibilityManager }) {
+  const [state, setState] = useState(() => input.getScanState());
+  const movingRef = useRef(state.moving);
+
+  useEffect(() => {
+    setState(input.getScanState());
+    const unsub = input.onScan((s) => {
+      setState(s);
+      // the ring is visual only; announce the outcome of each selection
+      if (s.moving !== movingRef.current) a11y.announce(s.moving ? `Moving ${s.direction.label.toLowerCase()}` : 'Stopped');
+      movingRef.current = s.moving;
+    });
+    return () => {
+      unsub();
+    };
+  }, [input, a11y]);
+
+  if (state.mode === 'off') return null;
+  const dirs = scanDirections(input.getScanning().directions);
+  return (
+    <div className={`scan-indicator${state.moving ? ' is-moving' : ''}`} aria-hidden="true">
+      {dirs.map((d, i) => (
+        <span
+          key={d.label}
+          className={`scan-indicator__arrow${i === state.index ? ' is-current' : ''}`}
+          style={{
+            left: `${50 + d.x * 36}%`,
+            top: `${50 + d.y * 36}%`,
+            transform: `translate(-50%, -50%) rotate(${Math.atan2(d.y, d.x)}rad)`
+          }}
+        >
+          ➜
+        </span>
+      ))}
+      <span className="scan-indicator__label">{state.moving ? `Moving ${state.direction.label}` : state.direction.label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { InputManager, type ScanMode, type ScanSettings } from '../../core/InputManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+
+const MODES: { value: ScanMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'one-switch', label: 'One switch' },
+  { value: 'two-switch', label: 'Two switches' }
+];
+
+type Props = {
+  input: InputManager;
+  a11y: AccessibilityManager;
+  onChange?: (settings: ScanSettings) => void;
+};
+
+export function SwitchScanPanel({ input, a11y, onChange }: Props) {
+  const [scan, setScan] = useState(() => input.getScanning());
+  useEffect(() => {
+    // follow settings applied elsewhere, e.g. when the learner changes
+    const sync = () =>
+      setScan((prev) => {
+        const next = input.getScanning();
+        return JSON.stringify(prev) === JSON.stringify(next) ? prev : next;
+      });
+    sync();
+    const unsub = input.onScan(sync);
+    return () => {
+      unsub();
+    };
+  }, [input]);
+
+  const update = (patch: Partial<ScanSettings>) => {
+    input.setScanning(patch);
+    const next = input.getScanning();
+    setScan(next);
+    onChange?.(next);
+    if (patch.mode) a11y.announce(`Switch scanning ${MODES.find((m) => m.value === next.mode)?.label.toLowerCase()}`);
+  };
+
+  return (
+    <fieldset className="input-panel">
+      <legend>Switch scanning</legend>
+      <label className="input-panel__row">
+        Mode
+        <select value={scan.mode} onChange={(e) => update({ mode: e.currentTarget.value as ScanMode })}>
+          {MODES.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {scan.mode !== 'off' && (
+        <>
+          <p className="input-panel__hint">
+            {scan.mode === 'one-switch'
+              ? 'Space, Enter or button 1: press to go or stop, hold to select.'
+              : 'Space or button 1 steps. Enter or button 2: press to go or stop, hold to select.'}
+          </p>
+          {scan.mode === 'one-switch' && (
+            <label className="input-panel__row">
+              Scan speed
+              <input
+                type="range"
+                min={0.5}
+                max={5}
+                step={0.25}
+                value={scan.rateMs / 1000}
+                aria-valuetext={`${scan.rateMs / 1000} seconds per direction`}
+                onChange={(e) => update({ rateMs: Number(e.currentTarget.value) * 1000 })}
+              />
+              <span>{scan.rateMs / 1000} s</span>
+            </label>
+          )}
+          <label className="input-panel__row">
+            Hold to select
+            <input
+              type="range"
+              min={0.3}
+              max={3}
+              step={0.1}
+              value={scan.longPressMs / 1000}
+              aria-valuetext={`${scan.longPressMs / 1000} seconds`}
+              onChange={(e) => update({ longPressMs: Math.round(Number(e.currentTarget.value) * 10) * 100 })}
+            />
+            <span>{scan.longPressMs / 1000} s</span>
+          </label>
+          <label className="input-panel__row">
+            Directions
+            <select
+              value={scan.directions}
+              onChange={(e) => update({ directions: Number(e.currentTarget.value) === 8 ? 8 : 4 })}
+            >
+              <option value={4}>4 (up, right, down, left)</option>
+              <option value={8}>8 (with diagonals)</option>
+            </select>
+          </label>
+        </>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { InputManager } from '../../core/InputManager';
+import { AccessibilityManager } from '../../core/AccessibilityManager';
+import { DEFAULT_FILTER, FILTER_KINDS, type FilterKind, type FilterSettings } from '../../core/InputFilter';
+
+type Props = {
+  input: InputManager;
+  a11y: AccessibilityManager;
+  onChange?: (settings: FilterSettings) => void;
+};
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+export function TremorFilterPanel({ input, a11y, onChange }: Props) {
+  const [filter, setFilter] = useState(() => input.getFilter());
+
+  const update = (patch: Partial<FilterSettings>) => {
+    input.setFilter(patch);
+    const next = input.getFilter();
+    setFilter(next);
+    onChange?.(next);
+  };
+
+  return (
+    <fieldset className="input-panel">
+      <legend>Tremor filter</legend>
+      <p className="input-panel__hint">Applies to gamepad sticks and pointer movement in every game.</p>
+      <label className="input-panel__row">
+        Filter
+        <select value={filter.kind} onChange={(e) => update({ kind: e.currentTarget.value as FilterKind })}>
+          {FILTER_KINDS.map((k) => (
+            <option key={k.value} value={k.value}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {filter.kind !== 'none' && (
+        <label className="input-panel__row">
+          Smoothing
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={filter.strength}
+            aria-valuetext={percent(filter.strength)}
+            onChange={(e) => update({ strength: Number(e.currentTarget.value) })}
+          />
+          <span>{percent(filter.strength)}</span>
+        </label>
+      )}
+      <label className="input-panel__row">
+        Ignore small movements
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={filter.jitter}
+          aria-valuetext={filter.jitter ? percent(filter.jitter) : 'Off'}
+          onChange={(e) => update({ jitter: Number(e.currentTarget.value) })}
+        />
+        <span>{filter.jitter ? percent(filter.jitter) : 'Off'}</span>
+      </label>
+      <div>
+        <button
+          className="btn"
+          onClick={() => {
+            update(DEFAULT_FILTER);
+            a11y.announce('Tremor filter reset to defaults');
+          }}
+        >
+          Reset filter
+        </button>
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { InputManager, type JoystickState } from '../../core/InputManager';
+
+/** On-screen joystick drawn where a touch lands on a stage in joystick mode. */
+export function VirtualJoystick({ input, hint }: { input: InputManager; hint?: string }) {
+  const [state, setState] = useState<JoystickState>(null);
+
+  useEffect(() => {
+    const unsub = input.onJoystick(setState);
+    return () => {
+      unsub();
+    };
+  }, [input]);
+
+  if (!state) return hint ? <p className="virtual-joystick__hint">{hint}</p> : null;
+  const { origin, knob, radius } = state;
+  return (
+    <div aria-hidden="true">
+      <div
+        className="virtual-joystick__base"
+        style={{ left: origin.x - radius, top: origin.y - radius, width: radius * 2, height: radius * 2 }}
+      />
+      <div className="virtual-joystick__knob" style={{ left: knob.x, top: knob.y }} />
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  InputManager,
+  sanitizeCalibration,
+  type Calibration,
+  type DeviceSettings,
+  type Reach
+} from '../../../core/InputManager';
+import { AccessibilityManager } from '../../../core/AccessibilityManager';
+import {
+  measureReach,
+  measureRest,
+  measureTremor,
+  proposeCalibration,
+  type Direction,
+  type Measurements
+} from '../../utils/calibration';
+import { StickPreview } from './StickPreview';
+
+type Step = 'setup' | 'rest' | Direction | 'tremor' | 'review';
+type Vector = { x: number; y: number };
+type Measured = { rest?: Measurements['rest']; tremor?: number; reach: Partial<Reach> };
+
+const MEASURE_MS = 3000;
+const STEPS: Step[] = ['setup', 'rest', 'up', 'right', 'down', 'left', 'tremor', 'review'];
+
+const INSTRUCTIONS: Partial<Record<Step, string>> = {
+  rest: 'Let go of the stick completely and keep hands off while it measures.',
+  up: 'Push the stick up as far as is comfortable and hold it there.',
+  right: 'Push the stick right as far as is comfortable and hold it there.',
+  down: 'Push the stick down as far as is comfortable and hold it there.',
+  left: 'Push the stick left as far as is comfortable and hold it there.',
+  tremor: 'Push the stick about halfway in any direction and hold it as steady as you can.'
+};
+
+const AXIS_NAMES = ['left stick horizontal', 'left stick vertical', 'right stick horizontal', 'right stick vertical'];
+
+type Props = {
+  input: InputManager;
+  a11y: AccessibilityManager;
+  onSave?: (devices: DeviceSettings) => void;
+};
+
+export function CalibrationWizard({ input, a11y, onSave }: Props) {
+  const [step, setStep] = useState<Step | null>(null);
+  const [pads, setPads] = useState(() => input.listGamepads());
+  const [padId, setPadId] = useState(() => input.getMovementDevice());
+  const device = pads.find((p) => p.id === padId) ?? pads[0] ?? null;
+  // each gamepad keeps its own calibration
+  const [current, setCurrent] = useState(() => input.calibrationFor(device?.id ?? null));
+  const [axes, setAxes] = useState<[number, number]>(current.axes);
+  const [raw, setRaw] = useState<Vector | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  // the pad went away in the middle of a measurement
+  const [lost, setLost] = useState(false);
+  const [draft, setDraft] = useState<Calibration | null>(null);
+  const samplesRef = useRef<Vector[]>([]);
+  const measuredRef = useRef<Measured>({ reach: {} });
+
+  const pad = device?.index ?? null;
+
+  const chooseDevice = (id: string) => {
+    const c = input.calibrationFor(id);
+    setPadId(id);
+    setCurrent(c);
+    setAxes(c.axes);
+  };
+
+  // Browsers only list a pad after one of its buttons has been pressed
+  useEffect(() => {
+    const refresh = () => setPads(input.listGamepads());
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, [input]);
+
+  const finishMeasure = (s: Step, samples: Vector[]) => {
+    const m = measuredRef.current;
+    if (s === 'rest') m.rest = measureRest(samples);
+    else if (s === 'tremor') m.tremor = measureTremor(samples);
+    else if (s !== 'setup' && s !== 'review') m.reach[s] = measureReach(samples, m.rest?.offset ?? { x: 0, y: 0 }, s);
+
+    const next = STEPS[STEPS.indexOf(s) + 1] ?? 'review';
+    if (next === 'review') {
+      const proposal = proposeCalibration(
+        {
+          rest: m.rest ?? { offset: { x: 0, y: 0 }, driftX: 0, driftY: 0 },
+          reach: { up: 1, down: 1, left: 1, right: 1, ...m.reach },
+          tremor: m.tremor ?? 0
+        },
+        { ...current, axes }
+      );
+      setDraft(proposal);
+      a11y.announce('Measurements done. Review the suggested calibration.');
+    } else {
+      a11y.announce(`Done. Next: ${INSTRUCTIONS[next]}`);
+    }
+    setStep(next);
+  };
+
+  // One loop drives the live preview and any measurement in progress
+  useEffect(() => {
+    if (step == null || pad == null) return;
+    let raf = 0;
+    let started: number | null = null;
+    const frame = (now: number) => {
+      const values = input.readAxes(pad);
+      const v = values ? { x: values[axes[0]] ?? 0, y: values[axes[1]] ?? 0 } : null;
+      setRaw(v);
+      if (progress != null && !v) {
+        samplesRef.current = [];
+        setProgress(null);
+        setLost(true);
+        a11y.announce('Controller disconnected. Reconnect it, then start measuring again.');
+        return;
+      }
+      if (progress != null && v) {
+        started ??= now;
+        samplesRef.current.push(v);
+        const p = Math.min(1, (now - started) / MEASURE_MS);
+        setProgress(p);
+        if (p >= 1) {
+          setProgress(null);
+          finishMeasure(step, samplesRef.current);
+          return;
+        }
+      }
+      raf = requestAnimationFrame(frame);
+    };
+    raf = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(raf);
+    // restart only when measuring starts/stops or the source changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step, pad, axes, progress != null, input]);
+
+  const startMeasure = () => {
+    samplesRef.current = [];
+    setLost(false);
+    setProgress(0);
+    a11y.announce('Measuring');
+  };
+
+  const close = () => {
+    setStep(null);
+    setProgress(null);
+    setLost(false);
+    setDraft(null);
+  };
+
+  const save = (c: Calibration | null) => {
+    if (!device) return;
+    input.setDeviceCalibration(device.id, c);
+    setCurrent(input.calibrationFor(device.id));
+    onSave?.(input.getDevices());
+    a11y.announce(c ? 'Calibration saved' : 'Calibration restored to default');
+    close();
+  };
+
+  if (step == null) {
+    return (
+      <section className="calibration" aria-labelledby="calibration-title">
+        <h3 id="calibration-title">Gamepad calibration</h3>
+        <p>{device ? device.id : 'No gamepad connected'}</p>
+        <p>
+          Dead zone {current.deadZoneX} across, {current.deadZoneY} up and down. Curve {current.responseCurve}.
+        </p>
+        <div className="backup__actions">
+          <button
+            className="btn"
+            onClick={() => {
+              measuredRef.current = { reach: {} };
+              const list = input.listGamepads();
+              setPads(list);
+              const id = list.find((p) => p.id === padId)?.id ?? list[0]?.id;
+              if (id) chooseDevice(id);
+              setStep('setup');
+            }}
+          >
+            Start calibration
+          </button>
+          <button className="btn" disabled={!device} onClick={() => save(null)}>
+            Restore default calibration
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  const axisCount = pads.find((p) => p.index === pad)?.axes ?? 4;
+  const stepNumber = STEPS.indexOf(step) + 1;
+  const instruction = INSTRUCTIONS[step];
+
+  return (
+    <section className="calibration" aria-labelledby="calibration-title">
+      <h3 id="calibration-title">
+        Gamepad calibration: step {stepNumber} of {STEPS.length}
+      </h3>
+      <div className="calibration__body">
+        <div className="calibration__steps">
+          {step === 'setup' && (
+            <>
+              {pads.length === 0 ? (
+                <p role="status">No gamepad found. Connect one and press any of its buttons.</p>
+              ) : (
+                <>
+                  <label className="calibration__field">
+                    Gamepad
+                    <select value={device?.id ?? ''} onChange={(e) => chooseDevice(e.currentTarget.value)}>
+                      {pads.map((p) => (
+                        <option key={p.index} value={p.id}>
+                          {p.index + 1}: {p.id}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {(['Horizontal', 'Vertical'] as const).map((name, i) => (
+                    <label key={name} className="calibration__field">
+                      {name} axis
+                      <select
+                        value={axes[i]}
+                        onChange={(e) => {
+                          const next: [number, number] = [...axes];
+                          next[i] = Number(e.currentTarget.value);
+                          setAxes(next);
+                        }}
+                      >
+                        {Array.from({ length: axisCount }, (_, n) => (
+                          <option key={n} value={n}>
+                            Axis {n}
+                            {AXIS_NAMES[n] ? ` (${AXIS_NAMES[n]})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </>
+              )}
+              <div className="backup__actions">
+                <button className="btn" disabled={pad == null} onClick={() => setStep('rest')}>
+                  Next
+                </button>
+                <button className="btn" onClick={close}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+
+          {instruction && (
+            <>
+              <p className="calibration__instruction">{instruction}</p>
+              {lost && <p role="alert">Controller disconnected. Reconnect it, then start measuring again.</p>}
+              {progress != null ? (
+                <progress max={1} value={progress} aria-label="Measuring" />
+              ) : (
+                <div className="backup__actions">
+                  <button className="btn" onClick={startMeasure}>
+                    Start measuring
+                  </button>
+                  <button className="btn" onClick={close}>
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'review' && draft && (
+            <>
+              <table className="data-table">
+                <caption>Suggested calibration</caption>
+                <tbody>
+                  {(
+                    [
+                      ['deadZoneX', 'Dead zone across', 0, 0.6, 0.01],
+                      ['deadZoneY', 'Dead zone up and down', 0, 0.6, 0.01],
+                      ['responseCurve', 'Curve (higher is gentler near the centre)', 0.5, 3, 0.1]
+                    ] as const
+                  ).map(([key, label, min, max, stepSize]) => (
+                    <tr key={key}>
+                      <th scope="row">{label}</th>
+                      <td>
+                        <input
+                          type="range"
+                          aria-label={label}
+                          min={min}
+                          max={max}
+                          step={stepSize}
+                          value={draft[key]}
+                          onChange={(e) => setDraft(sanitizeCalibration({ ...draft, [key]: Number(e.currentTarget.value) }))}
+                        />{' '}
+                        {draft[key]}
+                      </td>
+                    </tr>
+                  ))}
+                  {(['up', 'right', 'down', 'left'] as const).map((dir) => (
+                    <tr key={dir}>
+                      <th scope="row">Full speed at ({dir})</th>
+                      <td>
+                        <input
+                          type="range"
+                          aria-label={`Full speed at (${dir})`}
+                          min={0.2}
+                          max={1}
+                          step={0.01}
+                          value={draft.reach[dir]}
+                          onChange={(e) =>
+                            setDraft(
+                              sanitizeCalibration({ ...draft, reach: { ...draft.reach, [dir]: Number(e.currentTarget.value) } })
+                            )
+                          }
+                        />{' '}
+                        {Math.round(draft.reach[dir] * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <th scope="row">Measured tremor</th>
+                    <td>{(measuredRef.current.tremor ?? 0).toFixed(3)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <div className="backup__actions">
+                <button className="btn" onClick={() => save(draft)}>
+                  Save calibration
+                </button>
+                <button
+                  className="btn"
+                  onClick={() => {
+                    measuredRef.current = { reach: {} };
+                    setStep('rest');
+                  }}
+                >
+                  Measure again
+                </button>
+                <button className="btn" onClick={close}>
+                  Cancel
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+        <StickPreview raw={raw} calibration={draft ?? { ...current, axes }} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,41 @@
+import { shapeInput, type Calibration } from '../../../core/InputManager';
+
+type Vector = { x: number; y: number };
+
+const fmt = (v: number) => v.toFixed(2);
+
+/** Live view of the raw stick (ring) and what games receive after calibration (dot). */
+export function StickPreview({ raw, calibration }: { raw: Vector | null; calibration: Calibration }) {
+  const { offset, reach, deadZoneX, deadZoneY } = calibration;
+  const shaped = raw ? shapeInput(raw, calibration) : null;
+  const label = raw && shaped
+    ? `Stick at ${fmt(raw.x)}, ${fmt(raw.y)}. Game input ${fmt(shaped.x)}, ${fmt(shaped.y)}.`
+    : 'No gamepad input';
+
+  return (
+    <figure className="stick-preview">
+      <svg viewBox="-1.15 -1.15 2.3 2.3" role="img" aria-label={label}>
+        <rect x={-1} y={-1} width={2} height={2} className="stick-preview__frame" />
+        <rect
+          x={offset.x - reach.left}
+          y={offset.y - reach.up}
+          width={reach.left + reach.right}
+          height={reach.up + reach.down}
+          className="stick-preview__reach"
+        />
+        <rect
+          x={offset.x - deadZoneX}
+          y={offset.y - deadZoneY}
+          width={deadZoneX * 2}
+          height={deadZoneY * 2}
+          className="stick-preview__dead"
+        />
+        {shaped && <circle cx={shaped.x} cy={shaped.y} r={0.09} className="stick-preview__shaped" />}
+        {raw && <circle cx={raw.x} cy={raw.y} r={0.12} className="stick-preview__raw" />}
+      </svg>
+      <figcaption>
+        Ring: stick position. Dot: what games receive. Shaded box: dead zone. Dashed box: full reach.
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import type { GameDefinition, SessionRecord } from '../../../types/game';
+import { ConfigManager } from '../../../core/ConfigManager';
+import { SessionHistory } from '../../../core/SessionHistory';
+import {
+  TREND_METRICS,
+  describeSetting,
+  formatDuration,
+  formatMetric,
+  settingLabel,
+  settingsChanges
+} from '../../utils/progress';
+import { buildReportHtml, sessionsToCsv } from '../../utils/report';
+import { downloadFile, fileSlug } from '../../utils/download';
+import { TrendChart } from './TrendChart';
+
+const dayStart = (d: string) => new Date(`${d}T00:00:00`).getTime();
+const dayEnd = (d: string) => new Date(`${d}T23:59:59.999`).getTime();
+
+export function ProgressView({
+  config,
+  games,
+  learner
+}: {
+  config: ConfigManager;
+  games: GameDefinition[];
+  learner: string;
+}) {
+  const all = useMemo(() => new SessionHistory(config).listAll(), [config]);
+  const [gameId, setGameId] = useState(() => all[all.length - 1]?.gameId ?? games[0]?.id ?? '');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const game = games.find((g) => g.id === gameId) ?? null;
+
+  const inRange = all.filter((r) => (!from || r.startedAt >= dayStart(from)) && (!to || r.startedAt <= dayEnd(to)));
+  const sessions = inRange.filter((r) => r.gameId === gameId);
+  const changes = sessions.map((r, i) =>
+    game ? settingsChanges(game.configSchema, sessions[i - 1]?.config ?? null, r.config) : []
+  );
+  const dateLabel = (r: SessionRecord) => new Date(r.startedAt).toLocaleDateString();
+  const report = { learner, records: inRange, games, from, to };
+  const filename = (ext: string) =>
+    `agp-report-${fileSlug(learner)}-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+  const printReport = () => {
+    const w = window.open('', '_blank');
+    if (!w) {
+      downloadFile(filename('html'), buildReportHtml(report), 'text/html');
+      return;
+    }
+    w.document.write(buildReportHtml(report));
+    w.document.close();
+    w.focus();
+    w.print();
+  };
+
+  return (
+    <section className="progress" aria-labelledby="progress-title">
+      <h2 id="progress-title">Progress for {learner}</h2>
+      <div className="progress__filters" role="group" aria-label="Filters">
+        <label className="progress__filter">
+          Game
+          <select value={gameId} onChange={(e) => setGameId(e.currentTarget.value)}>
+            {games.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="progress__filter">
+          From
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.currentTarget.value)} />
+        </label>
+        <label className="progress__filter">
+          To
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.currentTarget.value)} />
+        </label>
+      </div>
+
+      {!config.getConsent() && <p>Sessions are only recorded after accepting local data storage.</p>}
+
+      {sessions.length === 0 ? (
+        <p>No sessions recorded for {game?.name ?? 'this game'} in this date range.</p>
+      ) : (
+        <>
+          <div className="progress__charts">
+            {TREND_METRICS.map((m) => (
+              <TrendChart
+                key={m.key}
+                id={`trend-${m.key}`}
+                title={m.label}
+                format={(v) => formatMetric(m, v)}
+                points={sessions.map((r, i) => ({
+                  label: dateLabel(r),
+                  value: m.value(r),
+                  settingsChanged: changes[i]!.length > 0
+                }))}
+              />
+            ))}
+          </div>
+          <p className="progress__legend">
+            <span className="progress__legend-marker" aria-hidden="true" /> Dashed line: settings were changed before
+            that session.
+          </p>
+
+          <table className="data-table">
+            <caption>Sessions</caption>
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">Duration</th>
+                <th scope="col">Targets</th>
+                {TREND_METRICS.map((m) => (
+                  <th key={m.key} scope="col">
+                    {m.label}
+                  </th>
+                ))}
+                <th scope="col">Misses</th>
+                <th scope="col">Pauses</th>
+                <th scope="col">Settings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((r, i) => (
+                <tr key={r.id} className={changes[i]!.length ? 'is-changed' : undefined}>
+                  <th scope="row">
+                    {dateLabel(r)} {new Date(r.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </th>
+                  <td>{formatDuration(r.endedAt - r.startedAt)}</td>
+                  <td>{r.metrics.targetsCollected}</td>
+                  {TREND_METRICS.map((m) => (
+                    <td key={m.key}>{formatMetric(m, m.value(r))}</td>
+                  ))}
+                  <td>{r.metrics.misses}</td>
+                  <td>{r.metrics.pauses}</td>
+                  <td>
+                    {changes[i]!.length ? (
+                      <ul className="progress__changes">
+                        {changes[i]!.map((c) => (
+                          <li key={c}>
+                            <mark>{c}</mark>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : i === 0 ? (
+                      'First session shown'
+                    ) : (
+                      'No change'
+                    )}
+                    {game && (
+                      <details>
+                        <summary>All settings</summary>
+                        <ul className="progress__changes">
+                          {Object.keys(game.configSchema.properties)
+                            .filter((name) => name in r.config)
+                            .map((name) => (
+                              <li key={name}>
+                                {settingLabel(game.configSchema, name)}:{' '}
+                                {describeSetting(game.configSchema, name, r.config[name])}
+                              </li>
+                            ))}
+                        </ul>
+                      </details>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      <div className="progress__reports" role="group" aria-label="Reports">
+        <h3>Reports</h3>
+        <p>All games in the selected date range. Files are created on this device; nothing is uploaded.</p>
+        <div className="backup__actions">
+          <button
+            className="btn"
+            disabled={!inRange.length}
+            onClick={() => downloadFile(filename('csv'), sessionsToCsv(report), 'text/csv')}
+          >
+            Download CSV
+          </button>
+          <button
+            className="btn"
+            disabled={!inRange.length}
+            onClick={() => downloadFile(filename('html'), buildReportHtml(report), 'text/html')}
+          >
+            Download printable report
+          </button>
+          <button className="btn" disabled={!inRange.length} onClick={printReport}>
+            Print report
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
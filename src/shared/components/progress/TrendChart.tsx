@@ -0,0 +1,76 @@
+const W = 640;
+const H = 220;
+const PAD = { top: 16, right: 16, bottom: 36, left: 56 };
+
+export type TrendPoint = { label: string; value: number | null; settingsChanged?: boolean };
+
+/**
+ * Line chart of one metric across sessions. Purely visual: the accessible name
+ * summarises the trend and the sessions table carries the full data.
+ */
+export function TrendChart({
+  id,
+  title,
+  points,
+  format
+}: {
+  id: string;
+  title: string;
+  points: TrendPoint[];
+  format: (v: number | null) => string;
+}) {
+  const values = points.map((p) => p.value).filter((v): v is number => v != null);
+  const max = Math.max(1, ...values) * 1.1;
+  const innerW = W - PAD.left - PAD.right;
+  const innerH = H - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (points.length > 1 ? (i / (points.length - 1)) * innerW : innerW / 2);
+  const y = (v: number) => PAD.top + innerH - (v / max) * innerH;
+  const line = points
+    .map((p, i) => (p.value == null ? null : `${x(i)},${y(p.value)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const summary = values.length
+    ? `${title}: ${values.length} sessions, from ${format(first ?? null)} to ${format(last ?? null)}.`
+    : `${title}: no data in this range.`;
+
+  return (
+    <figure className="trend-chart">
+      <figcaption id={`${id}-title`}>{title}</figcaption>
+      <svg viewBox={`0 0 ${W} ${H}`} role="img" aria-labelledby={`${id}-title ${id}-desc`}>
+        <desc id={`${id}-desc`}>{summary}</desc>
+        <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={PAD.top + innerH} className="trend-chart__axis" />
+        <line x1={PAD.left} y1={PAD.top + innerH} x2={W - PAD.right} y2={PAD.top + innerH} className="trend-chart__axis" />
+        <text x={PAD.left - 8} y={PAD.top + 6} textAnchor="end" className="trend-chart__tick">
+          {format(max / 1.1)}
+        </text>
+        <text x={PAD.left - 8} y={PAD.top + innerH} textAnchor="end" className="trend-chart__tick">
+          0
+        </text>
+        {points.map((p, i) =>
+          p.settingsChanged ? (
+            <line key={`m${i}`} x1={x(i)} x2={x(i)} y1={PAD.top} y2={PAD.top + innerH} className="trend-chart__marker" />
+          ) : null
+        )}
+        <polyline points={line} className="trend-chart__line" />
+        {points.map((p, i) =>
+          p.value == null ? null : <circle key={i} cx={x(i)} cy={y(p.value)} r={6} className="trend-chart__point" />
+        )}
+        {points.length > 0 && (
+          <>
+            <text x={x(0)} y={H - 10} textAnchor="start" className="trend-chart__tick">
+              {points[0]!.label}
+            </text>
+            {points.length > 1 && (
+              <text x={x(points.length - 1)} y={H - 10} textAnchor="end" className="trend-chart__tick">
+                {points[points.length - 1]!.label}
+              </text>
+            )}
+          </>
+        )}
+      </svg>
+    </figure>
+  );
+}
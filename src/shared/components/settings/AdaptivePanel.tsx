@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import type { GameConfigSchema } from '../../../types/game';
+import type { AdaptiveDifficulty } from '../../../core/AdaptiveDifficulty';
+import { formatValue } from './SchemaSettings';
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+/** Therapist controls for adaptive difficulty: on/off, success band, limits and recent changes. */
+export function AdaptivePanel({ adaptive, schema }: { adaptive: AdaptiveDifficulty; schema: GameConfigSchema }) {
+  const [, setVersion] = useState(0);
+  useEffect(() => {
+    const unsub = adaptive.onChange(() => setVersion((v) => v + 1));
+    return () => {
+      unsub();
+    };
+  }, [adaptive]);
+
+  const settings = adaptive.getSettings();
+  const [low, high] = settings.band;
+  const recent = adaptive.getLog().slice(-5).reverse();
+
+  return (
+    <fieldset className="tc-group adaptive-panel">
+      <legend>Adaptive difficulty</legend>
+      <label className="tc-row">
+        Adjust automatically
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => adaptive.setSettings({ enabled: e.currentTarget.checked })}
+        />
+      </label>
+      {settings.enabled && (
+        <>
+          <label className="tc-row">
+            Lowest success rate
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={low}
+              aria-valuetext={percent(low)}
+              onChange={(e) => adaptive.setSettings({ band: [Number(e.currentTarget.value), high] })}
+            />
+          </label>
+          <label className="tc-row">
+            Highest success rate
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={high}
+              aria-valuetext={percent(high)}
+              onChange={(e) => adaptive.setSettings({ band: [low, Number(e.currentTarget.value)] })}
+            />
+          </label>
+          <label className="tc-row">
+            Success within
+            <input
+              type="range"
+              min={1000}
+              max={30000}
+              step={500}
+              value={settings.goalMs}
+              aria-valuetext={seconds(settings.goalMs)}
+              onChange={(e) => adaptive.setSettings({ goalMs: Number(e.currentTarget.value) })}
+            />
+          </label>
+          {adaptive.properties().map(([name, prop]) => {
+            const [min, max] = adaptive.boundsFor(name);
+            const label = prop.label ?? name;
+            return (['lowest', 'highest'] as const).map((end, i) => {
+              const value = i === 0 ? min : max;
+              return (
+                <label key={`${name}-${end}`} className="tc-row">
+                  {`${label}, ${end}`}
+                  <input
+                    type="range"
+                    min={prop.min}
+                    max={prop.max}
+                    step={prop.step ?? 1}
+                    value={value}
+                    aria-valuetext={formatValue(prop, value)}
+                    onChange={(e) => {
+                      const v = Number(e.currentTarget.value);
+                      adaptive.setSettings({
+                        bounds: { ...settings.bounds, [name]: i === 0 ? [v, Math.max(v, max)] : [Math.min(v, min), v] }
+                      });
+                    }}
+                  />
+                </label>
+              );
+            });
+          })}
+          <p className="adaptive-panel__summary">
+            Keeps success between {percent(low)} and {percent(high)}, checking every few targets.
+          </p>
+        </>
+      )}
+      {recent.length > 0 && (
+        <ul className="adaptive-panel__log" aria-label="Recent adjustments">
+          {recent.map((a) => {
+            const prop = schema.properties[a.property];
+            const label = prop?.label ?? a.property;
+            const show = (v: number) => (prop ? formatValue(prop, v) : String(v));
+            return (
+              <li key={`${a.at}-${a.property}`}>
+                {label} {show(a.from)} → {show(a.to)} (success {percent(a.successRate)})
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </fieldset>
+  );
+}
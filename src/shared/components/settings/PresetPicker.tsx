@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import type { GameConfig } from '../../../types/game';
+import type { PresetLibrary } from '../../../core/PresetLibrary';
+
+/** Preset dropdown at the top of a settings panel, with save and delete for the learner's own presets. */
+export function PresetPicker<T extends GameConfig>({
+  library,
+  config,
+  onApply
+}: {
+  library: PresetLibrary;
+  config: T;
+  onApply: (next: T) => void;
+}) {
+  // the library is the source of truth; links can select a preset while this is open
+  const [, setVersion] = useState(0);
+  const refresh = () => setVersion((v) => v + 1);
+  const [name, setName] = useState('');
+  const selected = library.getSelected();
+  const builtIn = library.builtIn();
+  const saved = library.saved();
+  const changed = selected != null && !library.matches(selected, config);
+
+  const choose = (id: string) => {
+    library.select(id || null);
+    refresh();
+    const preset = library.getSelected();
+    if (preset) onApply(library.resolve(preset) as T);
+  };
+
+  return (
+    <fieldset className="tc-group preset-picker">
+      <legend>Presets</legend>
+      <label className="tc-row">
+        Preset
+        <select value={selected?.id ?? ''} onChange={(e) => choose(e.currentTarget.value)}>
+          <option value="">Custom</option>
+          {builtIn.length > 0 && (
+            <optgroup label="Built in">
+              {builtIn.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {saved.length > 0 && (
+            <optgroup label="Saved">
+              {saved.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+      {selected?.description && <p className="preset-picker__note">{selected.description}</p>}
+      {changed && (
+        <p className="preset-picker__changed" role="status">
+          Changed from “{selected.name}”
+        </p>
+      )}
+      <label className="tc-row">
+        New preset name
+        <input type="text" value={name} maxLength={40} onChange={(e) => setName(e.currentTarget.value)} />
+      </label>
+      <div className="preset-picker__actions">
+        <button
+          type="button"
+          className="btn"
+          disabled={!name.trim()}
+          onClick={() => {
+            library.save(name.trim(), config);
+            setName('');
+            refresh();
+          }}
+        >
+          Save as preset
+        </button>
+        {selected && !library.isBuiltIn(selected.id) && (
+          <button
+            type="button"
+            className="btn"
+            onClick={() => {
+              library.remove(selected.id);
+              refresh();
+            }}
+          >
+            Delete “{selected.name}”
+          </button>
+        )}
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,158 @@
+import React from 'react';
+import type { ConfigProperty, GameConfig, GameConfigSchema } from '../../../types/game';
+import { SettingsGroup } from './SettingsGroup';
+import { SettingsRow } from './SettingsRow';
+import { PresetPicker } from './PresetPicker';
+import { AdaptivePanel } from './AdaptivePanel';
+import type { PresetLibrary } from '../../../core/PresetLibrary';
+import type { AdaptiveDifficulty } from '../../../core/AdaptiveDifficulty';
+
+const DEFAULT_GROUP = 'Settings';
+
+function humanize(key: string) {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatValue(prop: ConfigProperty, value: number) {
+  if (prop.format) return prop.format(value);
+  return prop.unit ? `${value} ${prop.unit}` : String(value);
+}
+
+// Percentage consumed by the range track gradient in global.css
+export function rangeFill(value: number, min: number, max: number) {
+  if (max <= min) return '0%';
+  return `${((value - min) / (max - min)) * 100}%`;
+}
+
+function SchemaControl({
+  name,
+  prop,
+  value,
+  onChange
+}: {
+  name: string;
+  prop: ConfigProperty;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  if (prop.options) {
+    return (
+      <select
+        name={name}
+        value={String(value)}
+        onChange={(e) => {
+          const raw = e.currentTarget.value;
+          onChange(prop.type === 'number' ? Number(raw) : raw);
+        }}
+      >
+        {prop.options.map((o) => (
+          <option key={String(o.value)} value={String(o.value)}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  if (prop.type === 'boolean') {
+    return (
+      <input
+        type="checkbox"
+        name={name}
+        checked={Boolean(value)}
+        onChange={(e) => onChange(e.currentTarget.checked)}
+      />
+    );
+  }
+
+  if (prop.type === 'number' && prop.min !== undefined && prop.max !== undefined) {
+    const n = Number(value);
+    const text = formatValue(prop, n);
+    return (
+      <input
+        type="range"
+        name={name}
+        min={prop.min}
+        max={prop.max}
+        step={prop.step ?? 1}
+        value={n}
+        style={{ ['--_filled' as any]: rangeFill(n, prop.min, prop.max) }}
+        title={text}
+        aria-valuetext={text}
+        onChange={(e) => onChange(Number(e.currentTarget.value))}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={prop.type === 'number' ? 'number' : 'text'}
+      name={name}
+      value={String(value ?? '')}
+      min={prop.min}
+      max={prop.max}
+      step={prop.step}
+      onChange={(e) => {
+        const raw = e.currentTarget.value;
+        onChange(prop.type === 'number' ? Number(raw) : raw);
+      }}
+    />
+  );
+}
+
+/**
+ * Renders a complete settings panel from a game's config schema. Properties are
+ * grouped by `group` in declaration order; games only need to declare metadata.
+ */
+export function SchemaSettings<T extends GameConfig>({
+  schema,
+  config,
+  onChange,
+  onReset,
+  presets,
+  adaptive,
+  children
+}: React.PropsWithChildren<{
+  schema: GameConfigSchema;
+  config: T;
+  onChange: (next: T) => void;
+  onReset?: () => void;
+  presets?: PresetLibrary | null;
+  adaptive?: AdaptiveDifficulty | null;
+}>) {
+  const groups = new Map<string, [string, ConfigProperty][]>();
+  for (const [name, prop] of Object.entries(schema.properties)) {
+    if (prop.visibleWhen && !prop.visibleWhen(config)) continue;
+    const title = prop.group ?? DEFAULT_GROUP;
+    if (!groups.has(title)) groups.set(title, []);
+    groups.get(title)!.push([name, prop]);
+  }
+
+  return (
+    <div className="tc-config" role="region" aria-label="Settings">
+      {presets && <PresetPicker library={presets} config={config} onApply={onChange} />}
+      {[...groups].map(([title, entries]) => (
+        <SettingsGroup key={title} title={title}>
+          {entries.map(([name, prop]) => (
+            <SettingsRow key={name} label={prop.label ?? humanize(name)}>
+              <SchemaControl
+                name={name}
+                prop={prop}
+                value={config[name]}
+                onChange={(v) => onChange({ ...config, [name]: v })}
+              />
+            </SettingsRow>
+          ))}
+        </SettingsGroup>
+      ))}
+      {adaptive && <AdaptivePanel adaptive={adaptive} schema={schema} />}
+      {children}
+      {onReset && (
+        <button type="button" className="btn" onClick={onReset}>
+          Reset to defaults
+        </button>
+      )}
+    </div>
+  );
+}
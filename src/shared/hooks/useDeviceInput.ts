@@ -1,14 +1,12 @@
 import { useEffect, useRef, useState } from 'react';
-import { InputManager } from '../../core/InputManager';
-
-type Source = 'keyboard' | 'gamepad' | 'pointer';
+import { InputManager, type InputSource as Source } from '../../core/InputManager';
 
 export function useDeviceInput(input: InputManager) {
   const [vector, setVector] = useState({ x: 0, y: 0 });
   const sourceRef = useRef<Source>('pointer');
   const activeRef = useRef<Source>('pointer');
-  const lastBySource = useRef<{ keyboard: { x: number; y: number }; gamepad: { x: number; y: number }; pointer: { x: number; y: number } }>(
-    { keyboard: { x: 0, y: 0 }, gamepad: { x: 0, y: 0 }, pointer: { x: 0, y: 0 } }
+  const lastBySource = useRef<Record<Source, { x: number; y: number }>>(
+    { keyboard: { x: 0, y: 0 }, gamepad: { x: 0, y: 0 }, pointer: { x: 0, y: 0 }, switch: { x: 0, y: 0 } }
   );
 
   useEffect(() => {
@@ -19,9 +17,9 @@ export function useDeviceInput(input: InputManager) {
       (lastBySource.current as any)[source] = v;
 
       // Decide active source: prioritize keyboard while any key is held
-      if (source === 'keyboard') {
+      if (source === 'keyboard' || source === 'switch') {
         if (significant(v)) {
-          activeRef.current = 'keyboard';
+          activeRef.current = source;
         } else {
           // keys released; unlock to allow next source to claim control
           activeRef.current = 'pointer';
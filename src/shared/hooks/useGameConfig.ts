@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ConfigMigration, GameConfig, GameConfigSchema } from '../../types/game';
+import { ConfigManager, defaultsFor } from '../../core/ConfigManager';
+import type { GameEventBus } from '../../core/GameEvents';
+
+const SAVE_DELAY_MS = 400;
+
+/**
+ * Game settings state backed by ConfigManager. Loads once on mount, saves after
+ * edits settle (only with storage consent) and flushes a pending save on unmount.
+ * Each change is also published as `configChanged` on the game's events, and
+ * `presetSelected` or `adapted` events replace the settings with theirs.
+ */
+export function useGameConfig<T extends GameConfig>(
+  config: ConfigManager,
+  ns: string,
+  schema: GameConfigSchema,
+  migrations?: ConfigMigration[],
+  events?: GameEventBus | null
+) {
+  const [cfg, setCfg] = useState<T>(() => config.load<T>(ns, schema, migrations).config);
+  const pendingRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending && config.getConsent()) config.save(ns, schema, pending);
+  }, [config, ns, schema]);
+
+  useEffect(() => flush, [flush]);
+
+  const update = useCallback(
+    (next: T) => {
+      setCfg(next);
+      events?.emit('configChanged', { config: next });
+      pendingRef.current = next;
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+    },
+    [flush, events]
+  );
+
+  const reset = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    pendingRef.current = null;
+    config.clear(ns, schema);
+    const defaults = defaultsFor<T>(schema);
+    setCfg(defaults);
+    events?.emit('configChanged', { config: defaults });
+  }, [config, ns, schema, events]);
+
+  useEffect(() => {
+    if (!events) return;
+    const offs = [
+      events.on('presetSelected', (e) => update(e.config as T)),
+      events.on('adapted', (e) => update(e.config as T))
+    ];
+    return () => offs.forEach((off) => off());
+  }, [events, update]);
+
+  return [cfg, update, reset] as const;
+}
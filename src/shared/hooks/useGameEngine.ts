@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GameState } from '../../types/game';
+import type { GameEngine } from '../../core/GameEngine';
+import type { GameEvent } from '../../core/GameEvents';
+
+type Handlers = {
+  update?: (dtMs: number) => void; // fixed step, only while playing
+  frame?: (dtMs: number) => void; // every animation frame
+  event?: (e: GameEvent) => void;
+};
+
+const IDLE: GameState = { started: false, paused: false, completed: false, score: 0, timestamp: 0 };
+
+/** Subscribes a component to a game's engine; returns its state, re-rendering on lifecycle and score changes. */
+export function useGameEngine(engine: GameEngine | null | undefined, handlers: Handlers = {}) {
+  const [state, setState] = useState(() => engine?.getState() ?? IDLE);
+  // latest handlers without resubscribing every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!engine) return;
+    setState(engine.getState());
+    const offs = [
+      engine.onUpdate((dt) => handlersRef.current.update?.(dt)),
+      engine.onFrame((dt) => handlersRef.current.frame?.(dt)),
+      engine.events.onAny((e) => {
+        if ('state' in e) setState(e.state);
+        handlersRef.current.event?.(e);
+      })
+    ];
+    return () => offs.forEach((off) => off());
+  }, [engine]);
+
+  return state;
+}
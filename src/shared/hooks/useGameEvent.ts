@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+import type { GameEvent, GameEventBus, GameEventType } from '../../core/GameEvents';
+
+/** Listens to one event type for as long as the component is mounted. */
+export function useGameEvent<K extends GameEventType>(
+  events: GameEventBus | null | undefined,
+  type: K,
+  cb: (e: GameEvent<K>) => void
+) {
+  const cbRef = useRef(cb);
+  cbRef.current = cb;
+  useEffect(() => {
+    if (!events) return;
+    const off = events.on(type, (e) => cbRef.current(e));
+    return () => {
+      off();
+    };
+  }, [events, type]);
+}
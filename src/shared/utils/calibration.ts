@@ -0,0 +1,61 @@
+import { sanitizeCalibration, type Calibration, type Reach } from '../../core/InputManager';
+
+type Sample = { x: number; y: number };
+export type Direction = keyof Reach;
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+const round = (v: number, step: number) => Number((Math.round(v / step) * step).toFixed(2));
+
+/** Stick left alone: where it rests and how far it wanders. */
+export function measureRest(samples: Sample[]) {
+  const offset = { x: mean(samples.map((s) => s.x)), y: mean(samples.map((s) => s.y)) };
+  const spread = (pick: (s: Sample) => number, centre: number) => Math.max(0, ...samples.map((s) => Math.abs(pick(s) - centre)));
+  return { offset, driftX: spread((s) => s.x, offset.x), driftY: spread((s) => s.y, offset.y) };
+}
+
+/** Furthest deflection towards one direction, measured from the resting point. */
+export function measureReach(samples: Sample[], offset: Sample, direction: Direction) {
+  const along = (s: Sample) => {
+    if (direction === 'up') return offset.y - s.y;
+    if (direction === 'down') return s.y - offset.y;
+    if (direction === 'left') return offset.x - s.x;
+    return s.x - offset.x;
+  };
+  return Math.max(0, ...samples.map(along));
+}
+
+/** Shake while holding a position: root-mean-square distance from the average point. */
+export function measureTremor(samples: Sample[]) {
+  const cx = mean(samples.map((s) => s.x));
+  const cy = mean(samples.map((s) => s.y));
+  return Math.sqrt(mean(samples.map((s) => (s.x - cx) ** 2 + (s.y - cy) ** 2)));
+}
+
+export type Measurements = {
+  rest: ReturnType<typeof measureRest>;
+  reach: Reach;
+  tremor: number;
+};
+
+export function proposeCalibration(m: Measurements, base: Calibration): Calibration {
+  // dead zones swallow drift plus some tremor; more tremor also means a gentler start
+  const deadZone = (drift: number) => round(clamp(drift + m.tremor * 0.5 + 0.04, 0.05, 0.6), 0.01);
+  const deadZoneX = deadZone(m.rest.driftX);
+  const deadZoneY = deadZone(m.rest.driftY);
+  // full output slightly before the learner's limit so it doesn't take strain
+  const reach = (v: number, dz: number) => round(clamp(Math.max(v * 0.9, dz + 0.15), 0.2, 1), 0.01);
+  return sanitizeCalibration({
+    ...base,
+    deadZoneX,
+    deadZoneY,
+    responseCurve: round(clamp(1.2 + m.tremor * 6, 1, 3), 0.1),
+    offset: m.rest.offset,
+    reach: {
+      up: reach(m.reach.up, deadZoneY),
+      down: reach(m.reach.down, deadZoneY),
+      left: reach(m.reach.left, deadZoneX),
+      right: reach(m.reach.right, deadZoneX)
+    }
+  });
+}
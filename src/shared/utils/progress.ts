@@ -0,0 +1,78 @@
+import type { GameConfig, GameConfigSchema, SessionRecord } from '../../types/game';
+import { formatValue } from '../components/settings/SchemaSettings';
+
+export type TrendMetric = {
+  key: string;
+  label: string;
+  unit: string;
+  // null when the session has nothing to measure (e.g. no targets collected)
+  value: (r: SessionRecord) => number | null;
+};
+
+// Active play time; older records only have the wall-clock span, pauses included
+const minutes = (r: SessionRecord) => Math.max(0, r.metrics.activeMs ?? r.endedAt - r.startedAt) / 60000;
+
+export const TREND_METRICS: TrendMetric[] = [
+  {
+    key: 'targetsPerMinute',
+    label: 'Targets per minute',
+    unit: '/min',
+    value: (r) => (minutes(r) > 0 ? r.metrics.targetsCollected / minutes(r) : null)
+  },
+  {
+    key: 'timeToTarget',
+    label: 'Average time to target',
+    unit: 's',
+    value: (r) => (r.metrics.meanTimeToTargetMs == null ? null : r.metrics.meanTimeToTargetMs / 1000)
+  },
+  {
+    key: 'pathStraightness',
+    label: 'Path straightness',
+    unit: '%',
+    value: (r) => (r.metrics.pathEfficiency == null ? null : r.metrics.pathEfficiency * 100)
+  },
+  {
+    key: 'dwellFailures',
+    label: 'Dwell failures',
+    unit: '',
+    value: (r) => r.metrics.dwellAbandons
+  }
+];
+
+export function formatMetric(metric: TrendMetric, v: number | null) {
+  if (v == null) return '–';
+  const n = Number.isInteger(v) ? String(v) : v.toFixed(1);
+  return metric.unit ? `${n} ${metric.unit}` : n;
+}
+
+export function formatDuration(ms: number) {
+  const total = Math.round(ms / 1000);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m ? `${m} min ${s} s` : `${s} s`;
+}
+
+export function describeSetting(schema: GameConfigSchema, name: string, value: unknown) {
+  const prop = schema.properties[name];
+  if (!prop) return String(value);
+  const option = prop.options?.find((o) => o.value === value);
+  if (option) return option.label;
+  if (prop.type === 'boolean') return value ? 'On' : 'Off';
+  if (prop.type === 'number' && typeof value === 'number') return formatValue(prop, value);
+  return String(value);
+}
+
+export function settingLabel(schema: GameConfigSchema, name: string) {
+  return schema.properties[name]?.label ?? name;
+}
+
+// Settings that differ from the previous session, e.g. "Cursor size: 60 px → 80 px"
+export function settingsChanges(schema: GameConfigSchema, prev: GameConfig | null, cur: GameConfig) {
+  if (!prev) return [];
+  return Object.keys(schema.properties)
+    .filter((name) => name in cur && prev[name] !== cur[name])
+    .map(
+      (name) =>
+        `${settingLabel(schema, name)}: ${describeSetting(schema, name, prev[name])} → ${describeSetting(schema, name, cur[name])}`
+    );
+}
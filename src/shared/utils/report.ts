@@ -0,0 +1,152 @@
+import type { GameDefinition, SessionRecord } from '../../types/game';
+import { TREND_METRICS, describeSetting, formatDuration, formatMetric, settingLabel, settingsChanges } from './progress';
+
+export type ReportInput = {
+  learner: string;
+  records: SessionRecord[];
+  games: GameDefinition[];
+  from?: string; // yyyy-mm-dd, as shown in the report header
+  to?: string;
+};
+
+const gameName = (id: string, games: GameDefinition[]) => games.find((g) => g.id === id)?.name ?? id;
+
+function settingsText(record: SessionRecord, games: GameDefinition[]) {
+  const schema = games.find((g) => g.id === record.gameId)?.configSchema;
+  return Object.entries(record.config)
+    .map(([name, value]) => (schema ? `${settingLabel(schema, name)}: ${describeSetting(schema, name, value)}` : `${name}: ${String(value)}`))
+    .join('; ');
+}
+
+function csvCell(v: unknown) {
+  let s = v == null ? '' : String(v);
+  // spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const round = (v: number | null) => (v == null ? '' : Math.round(v * 100) / 100);
+
+export function sessionsToCsv({ learner, records, games }: ReportInput) {
+  const header = [
+    'Learner',
+    'Game',
+    'Started',
+    'Duration (s)',
+    'Targets collected',
+    ...TREND_METRICS.map((m) => (m.unit ? `${m.label} (${m.unit})` : m.label)),
+    'Misses',
+    'Pauses',
+    'Settings'
+  ];
+  const rows = records.map((r) => [
+    learner,
+    gameName(r.gameId, games),
+    new Date(r.startedAt).toISOString(),
+    Math.round((r.endedAt - r.startedAt) / 1000),
+    r.metrics.targetsCollected,
+    ...TREND_METRICS.map((m) => round(m.value(r))),
+    r.metrics.misses,
+    r.metrics.pauses,
+    settingsText(r, games)
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function esc(v: unknown) {
+  return String(v).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Counts may come from imported files; never interpolate them raw
+const count = (v: unknown) => esc(Number(v).toFixed(0));
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+function gameSection(gameId: string, records: SessionRecord[], games: GameDefinition[]) {
+  const game = games.find((g) => g.id === gameId);
+  const totalMs = records.reduce((t, r) => t + (r.endedAt - r.startedAt), 0);
+  const sum = (pick: (r: SessionRecord) => number) => records.reduce((t, r) => t + pick(r), 0);
+
+  const trendRows = TREND_METRICS.map((m) => {
+    const values = records.map(m.value).filter((v): v is number => v != null);
+    return `<tr><th scope="row">${esc(m.label)}</th><td>${esc(formatMetric(m, values[0] ?? null))}</td><td>${esc(
+      formatMetric(m, values[values.length - 1] ?? null)
+    )}</td><td>${esc(formatMetric(m, mean(values)))}</td></tr>`;
+  }).join('');
+
+  const sessionRows = records
+    .map((r, i) => {
+      const changed = game ? settingsChanges(game.configSchema, records[i - 1]?.config ?? null, r.config) : [];
+      const settings = changed.length
+        ? `<strong>Changed:</strong> ${changed.map(esc).join('<br>')}`
+        : i === 0
+          ? esc(settingsText(r, games))
+          : 'No change';
+      return `<tr><th scope="row">${esc(new Date(r.startedAt).toLocaleString())}</th><td>${esc(
+        formatDuration(r.endedAt - r.startedAt)
+      )}</td><td>${count(r.metrics.targetsCollected)}</td>${TREND_METRICS.map(
+        (m) => `<td>${esc(formatMetric(m, m.value(r)))}</td>`
+      ).join('')}<td>${settings}</td></tr>`;
+    })
+    .join('');
+
+  return `<section>
+<h2>${esc(gameName(gameId, games))}</h2>
+<table>
+<caption>Totals</caption>
+<tbody>
+<tr><th scope="row">Sessions</th><td>${count(records.length)}</td></tr>
+<tr><th scope="row">Total time</th><td>${esc(formatDuration(totalMs))}</td></tr>
+<tr><th scope="row">Targets collected</th><td>${count(sum((r) => r.metrics.targetsCollected))}</td></tr>
+<tr><th scope="row">Misses</th><td>${count(sum((r) => r.metrics.misses))}</td></tr>
+<tr><th scope="row">Dwell failures</th><td>${count(sum((r) => r.metrics.dwellAbandons))}</td></tr>
+</tbody>
+</table>
+<table>
+<caption>Trends</caption>
+<thead><tr><th scope="col">Measure</th><th scope="col">First session</th><th scope="col">Latest session</th><th scope="col">Average</th></tr></thead>
+<tbody>${trendRows}</tbody>
+</table>
+<table>
+<caption>Sessions and configuration used</caption>
+<thead><tr><th scope="col">Started</th><th scope="col">Duration</th><th scope="col">Targets</th>${TREND_METRICS.map(
+    (m) => `<th scope="col">${esc(m.label)}</th>`
+  ).join('')}<th scope="col">Settings</th></tr></thead>
+<tbody>${sessionRows}</tbody>
+</table>
+</section>`;
+}
+
+/** Self-contained, print-ready HTML summary. No scripts or external resources. */
+export function buildReportHtml({ learner, records, games, from, to }: ReportInput) {
+  const byGame = new Map<string, SessionRecord[]>();
+  for (const r of records) byGame.set(r.gameId, [...(byGame.get(r.gameId) ?? []), r]);
+  const range = from || to ? `${from || 'start'} to ${to || 'today'}` : 'All sessions';
+  const body = byGame.size
+    ? [...byGame].map(([id, rs]) => gameSection(id, rs, games)).join('\n')
+    : '<p>No sessions recorded in this period.</p>';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Progress report: ${esc(learner)}</title>
+<style>
+body { font: 18pt/1.4 system-ui, sans-serif; color: #000; background: #fff; margin: 1.5rem; }
+h1, h2 { line-height: 1.2; }
+section { break-inside: avoid-page; margin-bottom: 2rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 14pt; }
+caption { text-align: left; font-weight: 700; padding-bottom: .5rem; }
+th, td { border: 2px solid #000; padding: .3rem .5rem; text-align: left; vertical-align: top; }
+thead th { background: #000; color: #fff; }
+@media print { body { margin: 0; } thead { display: table-header-group; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Progress report: ${esc(learner)}</h1>
+<p>${esc(range)}. Generated ${esc(new Date().toLocaleString())} from data stored on this device.</p>
+${body}
+</body>
+</html>
+`;
+}
@@ -1,4 +1,5 @@
 import type { ComponentType } from 'react';
+import type { GameEngine } from '../core/GameEngine';
 export type GameCategory = 'motor' | 'cognitive' | 'coordination';
 
 export type AccessibilityFeature =
@@ -9,21 +10,70 @@ export type AccessibilityFeature =
   | 'keyboardSupport'
   | 'gamepadSupport';
 
+export type ConfigValue = number | string | boolean;
+
+export type ConfigOption = { value: string | number; label: string };
+
+export interface ConfigProperty {
+  type: 'number' | 'string' | 'boolean';
+  default: ConfigValue;
+  min?: number;
+  max?: number;
+  // Presentation metadata consumed by the shared settings panel
+  label?: string;
+  group?: string;
+  step?: number;
+  unit?: string;
+  options?: ConfigOption[]; // enum values, rendered as a select
+  format?: (value: number) => string; // slider value text, overrides unit
+  visibleWhen?: (config: GameConfig) => boolean;
+  // Adaptive difficulty may tune this number; says which way makes the game easier
+  adapt?: { easier: 'higher' | 'lower' };
+}
+
 export interface GameConfigSchema {
   version: number;
-  properties: Record<string, { type: 'number' | 'string' | 'boolean'; min?: number; max?: number }>;
+  properties: Record<string, ConfigProperty>;
   required?: string[];
 }
 
+// Upgrades a stored config written under schema version `from` to version `to`
+export interface ConfigMigration {
+  from: number;
+  to: number;
+  migrate(config: GameConfig): GameConfig;
+}
+
 export type GameState = {
   started: boolean;
   paused: boolean;
+  completed: boolean; // reached its end; cleared by the next start or reset
   score: number;
   timestamp: number;
 };
 
 export type GameConfig = Record<string, unknown>;
 
+// Per-session performance figures every game reports in the same shape
+export type SessionMetrics = {
+  targetsCollected: number;
+  meanTimeToTargetMs: number | null;
+  pathEfficiency: number | null; // straight-line distance / distance travelled, 0..1
+  misses: number;
+  dwellAbandons: number;
+  pauses: number;
+  activeMs?: number; // time played, excluding pauses; missing from older records
+};
+
+export type SessionRecord = {
+  id: string;
+  gameId: string;
+  startedAt: number;
+  endedAt: number;
+  metrics: SessionMetrics;
+  config: GameConfig;
+};
+
 export interface IGame {
   id: string;
   name: string;
@@ -31,6 +81,8 @@ export interface IGame {
   category: GameCategory;
   configSchema: GameConfigSchema;
   accessibilityFeatures: AccessibilityFeature[];
+  // Loop, lifecycle state and the instance's event bus; the shell and component follow it
+  engine: GameEngine;
 
   initialize(config: GameConfig): void;
   start(): void;
@@ -40,9 +92,18 @@ export interface IGame {
   cleanup(): void;
 
   getState(): GameState;
+  getMetrics(): SessionMetrics;
   updateConfig(config: Partial<GameConfig>): void;
 }
 
+// Named starting point for a game's settings; unset properties take their defaults
+export type GamePreset = {
+  id: string;
+  name: string;
+  description?: string;
+  config: Partial<GameConfig>;
+};
+
 export interface GameDefinition {
   id: string;
   name: string;
@@ -50,6 +111,8 @@ export interface GameDefinition {
   category: GameCategory;
   configSchema: GameConfigSchema;
   accessibilityFeatures: AccessibilityFeature[];
+  migrations?: ConfigMigration[];
+  presets?: GamePreset[];
   createInstance(): IGame;
   // Optional React component that renders the game's UI and configuration
   component?: ComponentType<any>;